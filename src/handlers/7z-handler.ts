@@ -0,0 +1,818 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { spawn } from 'child_process';
+import Seven from 'node-7z';
+import {
+  ArchiveEntry,
+  ArchiveEntryType,
+  CompressionHandler,
+  OperationResult
+} from '../interfaces/compression-handler.js';
+import {
+  CompressionUtils,
+  ProgressCallback,
+  CompressionOptions,
+  DecompressionOptions,
+  ListOptions,
+  TestOptions
+} from '../utils/compression-utils.js';
+import { ArchiveListingBuilder } from '../utils/archive-listing-builder.js';
+import { ArchiveTestReportBuilder } from '../utils/archive-test-report-builder.js';
+import { ExtractionGuard } from '../utils/extraction-guard.js';
+import { ConflictResolver } from '../utils/conflict-resolver.js';
+import { ExtractionStage } from '../utils/extraction-stage.js';
+import { EntryMetadata, MetadataRestorer } from '../utils/metadata-restorer.js';
+import { AtomicOutput } from '../utils/atomic-output.js';
+import { DecompressionLimiter } from '../utils/decompression-limits.js';
+import { EntryFilter } from '../utils/entry-filter.js';
+import { SourceFilter } from '../utils/source-filter.js';
+import { ChecksumAlgorithm, ChecksumManifest, EntryChecksums } from '../utils/checksum-manifest.js';
+
+// 指定7z可执行文件路径的环境变量
+export const SEVEN_ZIP_BIN_ENV = 'SEVEN_ZIP_BIN';
+
+// 7z测试失败时stderr中的错误行，形如"ERROR: CRC Failed : dir/file.txt"
+const TEST_ERROR_LINE = /^ERROR: (.+?) : (.+)$/;
+
+/**
+ * 临时目录中待移动的解压结果
+ */
+interface StagedExtraction {
+  extractDir: string;
+  stripComponents: number;
+  guard: ExtractionGuard;
+  filter: EntryFilter;
+  stage: ExtractionStage;
+  restorer: MetadataRestorer;
+  metadata: Map<string, EntryMetadata>;  // 列表中各条目的权限和修改时间
+  unsafeEntries: Map<string, string>;    // 解压前检查出的不安全条目，即使被解压出来也不移动
+  limiter: DecompressionLimiter;         // 按实际解压出的文件计量，不依赖归档中记录的大小
+}
+
+/**
+ * 7Z格式处理器
+ * 通过node-7z调用系统中的7z可执行文件
+ */
+export class SevenZipHandler implements CompressionHandler {
+  private binaryPath: string;
+  private binaryChecked = false;
+
+  /**
+   * @param binaryPath 7z可执行文件路径，默认读取SEVEN_ZIP_BIN环境变量，否则使用PATH中的7z
+   */
+  constructor(binaryPath?: string) {
+    this.binaryPath = SevenZipHandler.resolveBinaryPath(binaryPath);
+  }
+
+  /**
+   * 解析7z可执行文件路径
+   */
+  static resolveBinaryPath(binaryPath?: string): string {
+    return binaryPath || process.env[SEVEN_ZIP_BIN_ENV] || '7z';
+  }
+
+  /**
+   * 获取支持的文件扩展名
+   */
+  getSupportedExtensions(): string[] {
+    return ['.7z'];
+  }
+
+  /**
+   * 获取格式名称
+   */
+  getFormatName(): string {
+    return '7z';
+  }
+
+  /**
+   * 检查文件格式是否有效
+   */
+  isFormatValid(filePath: string): boolean {
+    return filePath.toLowerCase().endsWith('.7z');
+  }
+
+  /**
+   * 压缩文件或文件夹
+   */
+  async compress(
+    sourcePath: string,
+    targetPath: string,
+    options: CompressionOptions,
+    progressCallback?: ProgressCallback
+  ): Promise<OperationResult> {
+    try {
+      // 将路径限制在允许访问的根目录内
+      sourcePath = await CompressionUtils.resolveSafePath(sourcePath);
+      targetPath = await CompressionUtils.resolveSafePath(targetPath);
+
+      // 验证源路径存在
+      if (!await CompressionUtils.fileExists(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source path does not exist: ${sourcePath}`);
+      }
+
+      await this.ensureBinaryAvailable();
+
+      // 按onConflict策略处理已存在的输出文件
+      const conflicts = new ConflictResolver(options.onConflict);
+      const outputPath = await conflicts.resolveTarget(targetPath, sourcePath);
+      if (!outputPath) {
+        return conflicts.createSkippedResult(sourcePath, targetPath);
+      }
+      targetPath = outputPath;
+
+      // 确保目标目录存在
+      await CompressionUtils.ensureDir(path.dirname(targetPath));
+
+      const compressionLevel = options.compressionLevel ?? 6;
+
+      // 源文件夹中匹配exclude或忽略文件规则的条目写入排除列表文件，由7z在添加时跳过
+      const filter = new SourceFilter(options);
+      const excludeListPath = !filter.isEmpty() && await CompressionUtils.isDirectory(sourcePath)
+        ? AtomicOutput.createTempPath(targetPath)
+        : null;
+
+      try {
+        const filterOptions: Seven.SevenZipOptions = {};
+        if (excludeListPath) {
+          await CompressionUtils.collectSourceEntries(sourcePath, { filter });
+          // 7z保存的条目名以源文件夹名开头，排除列表中的路径按条目名从头匹配；-spd关闭通配符，按字面匹配路径
+          const rootName = path.basename(sourcePath);
+          const lines = filter.getExcludedPaths().map(excludedPath => `${rootName}/${excludedPath}\n`);
+          await fs.promises.writeFile(excludeListPath, lines.join(''), 'utf8');
+          Object.assign(filterOptions, { exclude: [`@${excludeListPath}`], listFileCharset: 'UTF-8', noWildcards: true });
+        }
+
+        // 写入新的临时文件，完成后再替换目标文件（7z会把文件添加到已存在的归档中）
+        // 临时文件名没有.7z扩展名，需指定归档类型
+        await AtomicOutput.writeFile(targetPath, tempPath => this.run(
+          // 7z默认递归添加目录；-r会在当前目录的子目录中匹配同名文件，因此不使用
+          Seven.add(tempPath, sourcePath, this.createOptions({
+            archiveType: '7z',
+            method: [`x=${compressionLevel}`],
+            ...filterOptions
+          })),
+          'compressing',
+          progressCallback
+        ));
+      } finally {
+        if (excludeListPath) {
+          await AtomicOutput.release(excludeListPath);
+        }
+      }
+
+      const compressedSize = await CompressionUtils.getFileSize(targetPath);
+
+      // 7z自行读取源文件（默认跟随符号链接），无法在写入时计算校验值，按需从写好的归档中计算
+      const checksums = options.checksum ? await this.hashEntries(targetPath, options.checksum) : undefined;
+
+      return CompressionUtils.createSuccessResult(
+        `Successfully compressed ${sourcePath} to ${targetPath}`,
+        {
+          compressedSize,
+          compressionLevel,
+          ...filter.getReport(),
+          ...conflicts.getReport(),
+          ...(checksums ? { entryChecksums: checksums.getEntries() } : {}),
+          sourcePath,
+          targetPath
+        }
+      );
+    } catch (error: any) {
+      return this.createErrorResult('compressing to 7z', error);
+    }
+  }
+
+  /**
+   * 解压文件
+   */
+  async decompress(
+    sourcePath: string,
+    targetDir: string,
+    options: DecompressionOptions,
+    progressCallback?: ProgressCallback
+  ): Promise<OperationResult> {
+    try {
+      // 将路径限制在允许访问的根目录内
+      sourcePath = await CompressionUtils.resolveSafePath(sourcePath);
+      targetDir = await CompressionUtils.resolveSafePath(targetDir);
+
+      // 验证源文件存在且为文件
+      if (!await CompressionUtils.fileExists(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source file does not exist: ${sourcePath}`);
+      }
+
+      if (!await CompressionUtils.isFile(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source path is not a file: ${sourcePath}`);
+      }
+
+      await this.ensureBinaryAvailable();
+
+      // 确保目标目录存在
+      await CompressionUtils.ensureDir(targetDir);
+
+      const stripComponents = options.stripComponents || 0;
+
+      // 7z由外部程序解压，无法在写入时计量，解压前先按归档中记录的条目大小检查限制，移动时再按实际大小计量
+      const compressedSize = await CompressionUtils.getFileSize(sourcePath);
+      const limiter = new DecompressionLimiter(compressedSize, options);
+      // 7z不恢复目录的权限和符号链接的修改时间，同时从列表中记录各条目的元数据，移动时再恢复
+      const listedEntries: ArchiveEntry[] = [];
+      const metadata = new Map<string, EntryMetadata>();
+      await this.run(
+        Seven.list(sourcePath, this.createOptions({ techInfo: true })),
+        'reading',
+        undefined,
+        (data) => {
+          const entry = this.toArchiveEntry(data.file, data.techInfo || new Map());
+          listedEntries.push(entry);
+          metadata.set(data.file, { mode: entry.mode, mtime: entry.mtime ? new Date(entry.mtime) : undefined });
+        }
+      );
+      const filter = new EntryFilter(options.include, options.exclude);
+      const selectedEntries = listedEntries.filter(entry => filter.matches(entry.path));
+      for (const entry of selectedEntries) {
+        limiter.addEntry(entry.path);
+        limiter.addBytes(entry.size);
+      }
+
+      // 7z无法逐条目拦截，也不保证去除条目名中的绝对路径和'..'，因此解压到目标目录之外的临时目录，
+      // 检查每个条目后再移入暂存目录，全部完成后合并到目标目录
+      const conflicts = new ConflictResolver(options.onConflict);
+      const restorer = new MetadataRestorer(options.preserveOwnership);
+      const stage = await ExtractionStage.create(targetDir, conflicts);
+      const guard = new ExtractionGuard(stage.stagingDir);
+      const extractDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), '7z-extract-'));
+      const listFile = `${extractDir}.lst`;
+      const excludeFile = `${extractDir}.exclude.lst`;
+      AtomicOutput.track(extractDir);
+      AtomicOutput.track(listFile);
+      AtomicOutput.track(excludeFile);
+
+      let extractedFiles = 0;
+      try {
+        // 7z先创建符号链接再写入其后的条目，解压前跳过不安全的符号链接和经由符号链接条目的路径
+        const unsafeEntries = await this.findUnsafeEntries(sourcePath, selectedEntries);
+        for (const [entryPath, reason] of unsafeEntries) {
+          guard.skip(entryPath, reason);
+        }
+
+        if (filter.isEmpty() || selectedEntries.length > unsafeEntries.size) {
+          // 选择性解压时通过列表文件传入条目名，避免命令行过长；-spd关闭通配符匹配
+          const extraOptions: Seven.SevenZipOptions = {};
+          if (!filter.isEmpty()) {
+            await fs.promises.writeFile(listFile, selectedEntries.map(entry => entry.path).join('\n'), 'utf8');
+            extraOptions.$cherryPick = [`@${listFile}`];
+          }
+          if (unsafeEntries.size > 0) {
+            await fs.promises.writeFile(excludeFile, [...unsafeEntries.keys()].join('\n'), 'utf8');
+            extraOptions.exclude = [`@${excludeFile}`];
+          }
+          if (extraOptions.$cherryPick || extraOptions.exclude) {
+            extraOptions.listFileCharset = 'UTF-8';
+            extraOptions.noWildcards = true;
+          }
+
+          extractedFiles = await this.run(
+            Seven.extractFull(sourcePath, extractDir, this.createOptions(extraOptions)),
+            'decompressing',
+            progressCallback
+          );
+        }
+
+        await this.moveExtracted('', {
+          extractDir, stripComponents, guard, filter, stage, restorer, metadata, unsafeEntries,
+          limiter: new DecompressionLimiter(compressedSize, options)
+        });
+        await stage.commit(guard);
+        await restorer.restoreDirectories(stagedPath => stage.getCommittedPath(stagedPath));
+      } finally {
+        await AtomicOutput.release(extractDir);
+        await AtomicOutput.release(listFile);
+        await AtomicOutput.release(excludeFile);
+        await stage.discard();
+      }
+
+      return CompressionUtils.createSuccessResult(
+        `Successfully decompressed ${sourcePath} to ${targetDir}`,
+        {
+          compressedSize,
+          extractedEntries: extractedFiles,
+          skippedEntries: guard.getSkippedEntries(),
+          unmatchedPatterns: filter.getUnmatchedPatterns(),
+          ...conflicts.getReport(),
+          ...restorer.getReport(),
+          stripComponents,
+          sourcePath,
+          targetDir
+        }
+      );
+    } catch (error: any) {
+      return this.createErrorResult('decompressing 7z file', error);
+    }
+  }
+
+  /**
+   * 列出压缩文件内容
+   */
+  async listContents(
+    sourcePath: string,
+    options: ListOptions,
+    progressCallback?: ProgressCallback
+  ): Promise<OperationResult> {
+    try {
+      // 将路径限制在允许访问的根目录内
+      sourcePath = await CompressionUtils.resolveSafePath(sourcePath);
+
+      // 验证源文件存在且为文件
+      if (!await CompressionUtils.fileExists(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source file does not exist: ${sourcePath}`);
+      }
+
+      if (!await CompressionUtils.isFile(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source path is not a file: ${sourcePath}`);
+      }
+
+      await this.ensureBinaryAvailable();
+
+      const listing = new ArchiveListingBuilder(options);
+      await this.run(
+        Seven.list(sourcePath, this.createOptions({ techInfo: true })),
+        'reading',
+        progressCallback,
+        (data) => {
+          if (data.techInfo) {
+            listing.add(this.toArchiveEntry(data.file, data.techInfo));
+          }
+        }
+      );
+
+      return CompressionUtils.createSuccessResult(
+        `Contents of ${sourcePath}`,
+        {
+          compressedSize: await CompressionUtils.getFileSize(sourcePath),
+          ...listing.build()
+        }
+      );
+    } catch (error: any) {
+      return this.createErrorResult('reading 7z file', error);
+    }
+  }
+
+  /**
+   * 测试压缩文件完整性
+   * 7z会校验每个条目的CRC，失败的条目从stderr的错误行中解析
+   * 指定checksum时再解压到临时目录计算清单使用的校验值
+   */
+  async test(
+    sourcePath: string,
+    options: TestOptions,
+    progressCallback?: ProgressCallback
+  ): Promise<OperationResult> {
+    try {
+      // 将路径限制在允许访问的根目录内
+      sourcePath = await CompressionUtils.resolveSafePath(sourcePath);
+
+      // 验证源文件存在且为文件
+      if (!await CompressionUtils.fileExists(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source file does not exist: ${sourcePath}`);
+      }
+
+      if (!await CompressionUtils.isFile(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source path is not a file: ${sourcePath}`);
+      }
+
+      await this.ensureBinaryAvailable();
+
+      const report = new ArchiveTestReportBuilder();
+
+      // 先读取条目列表，归档头部损坏时无法测试任何条目
+      const entries: ArchiveEntry[] = [];
+      try {
+        await this.run(
+          Seven.list(sourcePath, this.createOptions({ techInfo: true })),
+          'reading',
+          undefined,
+          (data) => {
+            if (data.techInfo) {
+              entries.push(this.toArchiveEntry(data.file, data.techInfo));
+            }
+          }
+        );
+      } catch (error: any) {
+        report.addArchiveError(SevenZipHandler.describeError(error));
+        return report.createResult(sourcePath);
+      }
+
+      const failures = new Map<string, string>();
+      try {
+        await this.run(Seven.test(sourcePath, this.createOptions()), 'testing', progressCallback);
+      } catch (error: any) {
+        const knownPaths = new Set(entries.map(entry => entry.path));
+        const lines = (error.stderr || '').split(/\r?\n/).filter((line: string) => line.trim());
+        for (const line of lines) {
+          const match = line.match(TEST_ERROR_LINE);
+          if (match && knownPaths.has(match[2])) {
+            failures.set(match[2], match[1]);
+          } else {
+            report.addArchiveError(line.replace(/^ERROR: /, '').trim());
+          }
+        }
+        if (lines.length === 0) {
+          report.addArchiveError(error.message);
+        }
+      }
+
+      let checksums: EntryChecksums | undefined;
+      if (options.checksum && failures.size === 0) {
+        try {
+          checksums = await this.hashEntries(sourcePath, options.checksum);
+        } catch (error: any) {
+          report.addArchiveError(SevenZipHandler.describeError(error));
+        }
+      }
+
+      for (const entry of entries) {
+        const failure = failures.get(entry.path);
+        if (failure) {
+          report.fail(entry.path, entry.type, entry.size, failure);
+        } else {
+          report.pass(
+            entry.path,
+            entry.type,
+            entry.size,
+            entry.crc32 ? Number.parseInt(entry.crc32, 16) : undefined,
+            checksums?.get(entry.path)
+          );
+        }
+      }
+
+      return report.createResult(sourcePath);
+    } catch (error: any) {
+      return this.createErrorResult('testing 7z file', error);
+    }
+  }
+
+  /**
+   * 7z由外部程序读写条目数据，将归档解压到临时目录后计算各文件条目的校验值
+   * 只计算普通文件，不跟随解压出的符号链接
+   */
+  private async hashEntries(archivePath: string, algorithm: ChecksumAlgorithm): Promise<EntryChecksums> {
+    const checksums = new EntryChecksums(algorithm);
+    const entries: ArchiveEntry[] = [];
+    await this.run(
+      Seven.list(archivePath, this.createOptions({ techInfo: true })),
+      'reading',
+      undefined,
+      (data) => {
+        entries.push(this.toArchiveEntry(data.file, data.techInfo || new Map()));
+      }
+    );
+
+    const extractDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), '7z-checksum-'));
+    const excludeFile = `${extractDir}.exclude.lst`;
+    AtomicOutput.track(extractDir);
+    AtomicOutput.track(excludeFile);
+
+    try {
+      // 与解压相同，不解压不安全的符号链接和经由符号链接条目的路径
+      const unsafeEntries = await this.findUnsafeEntries(archivePath, entries);
+      const extraOptions: Seven.SevenZipOptions = {};
+      if (unsafeEntries.size > 0) {
+        await fs.promises.writeFile(excludeFile, [...unsafeEntries.keys()].join('\n'), 'utf8');
+        Object.assign(extraOptions, { exclude: [`@${excludeFile}`], listFileCharset: 'UTF-8', noWildcards: true });
+      }
+
+      await this.run(Seven.extractFull(archivePath, extractDir, this.createOptions(extraOptions)), 'hashing');
+      for (const entry of await CompressionUtils.listDirectoryEntries(extractDir)) {
+        if (entry.type === 'file' && !unsafeEntries.has(entry.relativePath)) {
+          checksums.set(entry.relativePath, await ChecksumManifest.hashFile(entry.absolutePath, algorithm));
+        }
+      }
+    } finally {
+      await AtomicOutput.release(extractDir);
+      await AtomicOutput.release(excludeFile);
+    }
+
+    return checksums;
+  }
+
+  /**
+   * 解压前检查符号链接条目：目标为绝对路径或含有'..'的符号链接，以及路径经由符号链接条目的条目均不解压
+   * 列表中没有链接目标，先只解压符号链接条目到临时目录读取目标（这些条目的路径不经由其他符号链接）
+   * @returns 不安全的条目及原因
+   */
+  private async findUnsafeEntries(archivePath: string, entries: ArchiveEntry[]): Promise<Map<string, string>> {
+    const unsafeEntries = new Map<string, string>();
+    const symlinkPaths = new Set(entries.filter(entry => entry.type === 'symlink').map(entry => entry.path));
+    if (symlinkPaths.size === 0) {
+      return unsafeEntries;
+    }
+
+    for (const entry of entries) {
+      const segments = entry.path.split('/');
+      for (let i = 1; i < segments.length; i++) {
+        const parent = segments.slice(0, i).join('/');
+        if (symlinkPaths.has(parent)) {
+          unsafeEntries.set(entry.path, `path runs through symlink entry: ${parent}`);
+          break;
+        }
+      }
+    }
+
+    const symlinks = [...symlinkPaths].filter(symlinkPath => !unsafeEntries.has(symlinkPath));
+    if (symlinks.length === 0) {
+      return unsafeEntries;
+    }
+
+    // 按名称选择条目时7z会带出其下的所有路径，需同时排除经由符号链接的条目
+    const linkDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), '7z-links-'));
+    const listFile = `${linkDir}.lst`;
+    const excludeFile = `${linkDir}.exclude.lst`;
+    AtomicOutput.track(linkDir);
+    AtomicOutput.track(listFile);
+    AtomicOutput.track(excludeFile);
+    try {
+      await fs.promises.writeFile(listFile, symlinks.join('\n'), 'utf8');
+      const extraOptions: Seven.SevenZipOptions = {
+        $cherryPick: [`@${listFile}`],
+        listFileCharset: 'UTF-8',
+        noWildcards: true
+      };
+      if (unsafeEntries.size > 0) {
+        await fs.promises.writeFile(excludeFile, [...unsafeEntries.keys()].join('\n'), 'utf8');
+        extraOptions.exclude = [`@${excludeFile}`];
+      }
+      await this.run(Seven.extractFull(archivePath, linkDir, this.createOptions(extraOptions)), 'reading');
+
+      for (const symlinkPath of symlinks) {
+        // 7z可能把链接解压为以目标为内容的普通文件
+        const linkPath = path.join(linkDir, ...symlinkPath.split('/'));
+        const stats = await fs.promises.lstat(linkPath).catch(() => null);
+        const linkTarget = stats?.isSymbolicLink()
+          ? await fs.promises.readlink(linkPath)
+          : stats?.isFile() ? await fs.promises.readFile(linkPath, 'utf8') : undefined;
+        const reason = linkTarget === undefined
+          ? 'symlink target could not be read'
+          : linkTarget ? ExtractionGuard.checkEntryName(linkTarget) : 'symlink has an empty target';
+        if (reason) {
+          unsafeEntries.set(symlinkPath, linkTarget ? `symlink target is not allowed (${reason}): ${linkTarget}` : reason);
+        }
+      }
+    } finally {
+      await AtomicOutput.release(linkDir);
+      await AtomicOutput.release(listFile);
+      await AtomicOutput.release(excludeFile);
+    }
+
+    return unsafeEntries;
+  }
+
+  /**
+   * 将7z技术信息转换为统一的归档条目信息
+   */
+  private toArchiveEntry(file: string, info: Map<string, string>): ArchiveEntry {
+    // Attributes形如"A_ -rw-r--r--"或"D_ drwxr-xr-x"，后半部分为Unix权限（可能不存在）
+    const attributes = info.get('Attributes') || '';
+    const unixAttributes = attributes.split(' ')[1] || '';
+    const isDirectory = info.get('Folder') === '+' || attributes.startsWith('D');
+
+    let type: ArchiveEntryType = isDirectory ? 'directory' : 'file';
+    if (unixAttributes.startsWith('l')) {
+      type = 'symlink';
+    }
+
+    const entry: ArchiveEntry = {
+      path: file,
+      type,
+      size: Number.parseInt(info.get('Size') || '0', 10),
+      compressedSize: Number.parseInt(info.get('Packed Size') || '0', 10)
+    };
+
+    // Modified为本地时间"YYYY-MM-DD HH:mm:ss"
+    const modified = info.get('Modified');
+    if (modified) {
+      const mtime = new Date(modified.replace(' ', 'T'));
+      if (!Number.isNaN(mtime.getTime())) {
+        entry.mtime = mtime.toISOString();
+      }
+    }
+
+    if (/^[-dl][-rwxsStT]{9}$/.test(unixAttributes)) {
+      entry.mode = SevenZipHandler.parseModeString(unixAttributes.slice(1));
+    }
+
+    const crc = info.get('CRC');
+    if (crc) {
+      entry.crc32 = crc.toUpperCase().padStart(8, '0');
+    }
+
+    const method = info.get('Method');
+    if (method) {
+      entry.compressionMethod = method;
+    }
+
+    return entry;
+  }
+
+  /**
+   * 将"rwxr-xr-x"形式的权限字符串转换为数值模式
+   */
+  private static parseModeString(permissions: string): number {
+    let mode = 0;
+    for (let i = 0; i < 9; i++) {
+      if (permissions[i] !== '-' && permissions[i] !== 'S' && permissions[i] !== 'T') {
+        mode |= 1 << (8 - i);
+      }
+    }
+    // 特殊权限位：setuid、setgid、sticky
+    if ('sS'.includes(permissions[2])) mode |= 0o4000;
+    if ('sS'.includes(permissions[5])) mode |= 0o2000;
+    if ('tT'.includes(permissions[8])) mode |= 0o1000;
+    return mode;
+  }
+
+  /**
+   * 检查7z可执行文件是否可用
+   */
+  private async ensureBinaryAvailable(): Promise<void> {
+    if (this.binaryChecked) {
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const child = spawn(this.binaryPath, [], { stdio: 'ignore' });
+      child.on('error', (error: NodeJS.ErrnoException) => {
+        if (error.code === 'ENOENT') {
+          reject(new Error(
+            `7-Zip executable not found: "${this.binaryPath}". ` +
+            `Install a current 7-Zip release (the official 7zz, not the unmaintained p7zip) and make sure "7z" is on PATH, ` +
+            `or set the ${SEVEN_ZIP_BIN_ENV} environment variable to the 7z executable path.`
+          ));
+        } else {
+          reject(error);
+        }
+      });
+      child.on('close', () => resolve());
+    });
+
+    this.binaryChecked = true;
+  }
+
+  /**
+   * 构建node-7z选项
+   */
+  private createOptions(extra: Seven.SevenZipOptions = {}): Seven.SevenZipOptions {
+    return {
+      $bin: this.binaryPath,
+      $progress: true,
+      ...extra
+    };
+  }
+
+  /**
+   * 等待7z命令执行完成
+   * @returns 处理的条目数量
+   */
+  private run(
+    stream: Seven.SevenZipStream,
+    stage: string,
+    progressCallback?: ProgressCallback,
+    onData?: (data: Seven.SevenZipData) => void
+  ): Promise<number> {
+    return new Promise<number>((resolve, reject) => {
+      let entryCount = 0;
+
+      stream.on('data', (data) => {
+        entryCount++;
+        if (onData) {
+          onData(data);
+        }
+      });
+
+      stream.on('progress', (progress) => {
+        if (progressCallback && progress.percent !== undefined) {
+          progressCallback(CompressionUtils.formatProgress(progress.percent, 100, stage, progress.file));
+        }
+      });
+
+      stream.on('end', () => resolve(entryCount));
+      stream.on('error', (error) => reject(error));
+    });
+  }
+
+  /**
+   * 检查7z解压出的条目，去除前缀后移动到暂存目录
+   * 使用readdir的条目类型（不跟随符号链接）遍历，避免经由链接读取目录之外的内容
+   * 7z已恢复文件的权限和修改时间，移动时随文件保留；目录和符号链接按列表中记录的元数据恢复
+   */
+  private async moveExtracted(prefix: string, context: StagedExtraction): Promise<void> {
+    const { extractDir, stripComponents, guard, filter, stage, restorer, metadata, unsafeEntries, limiter } = context;
+    const dirents = await fs.promises.readdir(path.join(extractDir, prefix), { withFileTypes: true });
+
+    for (const dirent of dirents) {
+      const relativePath = prefix ? `${prefix}/${dirent.name}` : dirent.name;
+      const absolutePath = path.join(extractDir, relativePath);
+      const strippedPath = CompressionUtils.stripPathComponents(relativePath, stripComponents);
+      // 解压前已记录为不安全的条目不移动
+      if (unsafeEntries.has(relativePath)) {
+        continue;
+      }
+      // 7z按目录名解压时会带出整个目录，需再次按过滤条件筛选
+      const selected = filter.matches(relativePath);
+
+      if (dirent.isDirectory()) {
+        // 未被选中的目录中仍可能有被选中的条目，继续遍历但不单独创建该目录
+        const outputPath = selected && strippedPath
+          ? await guard.resolveOutputPath(relativePath, strippedPath)
+          : null;
+        if (outputPath) {
+          await guard.removeExistingLink(outputPath);
+          await CompressionUtils.ensureDir(outputPath);
+          restorer.deferDirectory(outputPath, relativePath, metadata.get(relativePath) || {});
+        }
+        if (outputPath || !selected || !strippedPath) {
+          await this.moveExtracted(relativePath, context);
+        }
+        continue;
+      }
+
+      if (!selected) {
+        continue;
+      }
+
+      if (!dirent.isFile() && !dirent.isSymbolicLink()) {
+        guard.skipSpecialFile(relativePath, 'special file');
+        continue;
+      }
+
+      // 归档中记录的大小可能与实际不符，按7z实际写出的大小累计，超出限制时中止
+      limiter.addEntry(relativePath);
+      if (dirent.isFile()) {
+        limiter.addBytes((await fs.promises.lstat(absolutePath)).size);
+      }
+
+      const outputPath = strippedPath ? await guard.resolveOutputPath(relativePath, strippedPath) : null;
+      if (!outputPath) {
+        continue;
+      }
+
+      // 已存在的文件按onConflict策略处理，keep-newer使用7z解压时还原的修改时间
+      const writePath = await stage.resolveConflict(outputPath, () =>
+        fs.promises.lstat(absolutePath).then(stats => stats.mtime)
+      );
+      if (!writePath) {
+        continue;
+      }
+
+      await guard.removeExistingLink(writePath);
+      await CompressionUtils.ensureDir(path.dirname(writePath));
+
+      if (dirent.isSymbolicLink()) {
+        const linkTarget = await fs.promises.readlink(absolutePath);
+        if (!await guard.checkSymlink(relativePath, writePath, linkTarget)) {
+          continue;
+        }
+        await fs.promises.rm(writePath, { force: true });
+        await SevenZipHandler.moveFile(absolutePath, writePath);
+        await restorer.restore(writePath, relativePath, { mtime: metadata.get(relativePath)?.mtime }, true);
+      } else {
+        await SevenZipHandler.moveFile(absolutePath, writePath);
+      }
+    }
+  }
+
+  /**
+   * 将临时目录中的文件或符号链接移动到暂存目录，临时目录位于其他文件系统时复制后删除
+   */
+  private static async moveFile(from: string, to: string): Promise<void> {
+    try {
+      await fs.promises.rename(from, to);
+    } catch (error: any) {
+      if (error.code !== 'EXDEV') {
+        throw error;
+      }
+      await fs.promises.cp(from, to, { preserveTimestamps: true, verbatimSymlinks: true });
+      await fs.promises.rm(from, { force: true });
+    }
+  }
+
+  /**
+   * 创建包含7z错误输出的错误结果
+   */
+  private createErrorResult(action: string, error: any): OperationResult {
+    return CompressionUtils.createErrorResult(
+      `Error ${action}: ${SevenZipHandler.describeError(error)}`,
+      error.stderr || error.stack
+    );
+  }
+
+  /**
+   * 获取错误原因：node-7z的错误消息通常只有文件路径，具体原因在stderr中
+   */
+  private static describeError(error: any): string {
+    const stderr = (error.stderr || '').split(/\r?\n/).map((line: string) => line.trim()).filter(Boolean).join(' ');
+    return stderr || error.message;
+  }
+}
@@ -0,0 +1,73 @@
+import { Transform } from 'stream';
+import { constants, createBrotliCompress, createBrotliDecompress } from 'zlib';
+import { CompressionOptions } from '../utils/compression-utils.js';
+import { SingleFileHandler } from './single-file-handler.js';
+
+// Brotli内容类型提示与zlib常量的对应关系
+const BROTLI_MODES: Record<NonNullable<CompressionOptions['brotliMode']>, number> = {
+  generic: constants.BROTLI_MODE_GENERIC,
+  text: constants.BROTLI_MODE_TEXT,
+  font: constants.BROTLI_MODE_FONT
+};
+
+// 默认滑动窗口大小(4 MiB)
+const DEFAULT_BROTLI_LGWIN = 22;
+
+/**
+ * Brotli格式处理器
+ * 处理.br格式文件的压缩和解压，Brotli格式不记录原始文件名、大小和校验和
+ */
+export class BrotliHandler extends SingleFileHandler {
+  /**
+   * 获取支持的文件扩展名
+   */
+  getSupportedExtensions(): string[] {
+    return ['.br'];
+  }
+
+  /**
+   * 获取格式名称
+   */
+  getFormatName(): string {
+    return 'brotli';
+  }
+
+  /**
+   * 创建压缩流
+   */
+  protected createCompressStream(options: CompressionOptions, sourceSize: number): Transform {
+    const quality = options.brotliQuality ?? options.compressionLevel ?? 6;
+    if (!Number.isInteger(quality) || quality < constants.BROTLI_MIN_QUALITY || quality > constants.BROTLI_MAX_QUALITY) {
+      throw new Error(`Brotli quality must be an integer between ${constants.BROTLI_MIN_QUALITY} and ${constants.BROTLI_MAX_QUALITY}`);
+    }
+
+    const lgwin = options.brotliLgwin ?? DEFAULT_BROTLI_LGWIN;
+    if (!Number.isInteger(lgwin) || lgwin < constants.BROTLI_MIN_WINDOW_BITS || lgwin > constants.BROTLI_MAX_WINDOW_BITS) {
+      throw new Error(`Brotli lgwin must be an integer between ${constants.BROTLI_MIN_WINDOW_BITS} and ${constants.BROTLI_MAX_WINDOW_BITS}`);
+    }
+
+    return createBrotliCompress({
+      params: {
+        [constants.BROTLI_PARAM_QUALITY]: quality,
+        [constants.BROTLI_PARAM_LGWIN]: lgwin,
+        [constants.BROTLI_PARAM_MODE]: BROTLI_MODES[options.brotliMode || 'generic'],
+        // 提供源文件大小有助于编码器选择合适的参数（参数为32位无符号整数）
+        [constants.BROTLI_PARAM_SIZE_HINT]: Math.min(sourceSize, 0xffffffff)
+      }
+    });
+  }
+
+  /**
+   * 创建解压流
+   */
+  protected createDecompressStream(): Transform {
+    return createBrotliDecompress();
+  }
+
+  /**
+   * 获取压缩方式名称
+   */
+  protected getCompressionMethod(): string {
+    return 'brotli';
+  }
+}
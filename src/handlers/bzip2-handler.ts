@@ -0,0 +1,69 @@
+import { Duplex } from 'stream';
+import { CompressionOptions } from '../utils/compression-utils.js';
+import { ExternalCodec } from '../utils/external-codec.js';
+import { SingleFileHandler } from './single-file-handler.js';
+
+// 指定bzip2可执行文件路径的环境变量
+export const BZIP2_BIN_ENV = 'BZIP2_BIN';
+
+// 调用系统中的bzip2程序（Node.js的zlib不支持bzip2）
+export const BZIP2_CODEC = new ExternalCodec('bzip2', BZIP2_BIN_ENV, 'bzip2');
+
+/**
+ * BZIP2格式处理器
+ * 处理.bz2格式文件的压缩和解压，bzip2格式不记录原始文件名
+ */
+export class Bzip2Handler extends SingleFileHandler {
+  /**
+   * 获取支持的文件扩展名
+   */
+  getSupportedExtensions(): string[] {
+    return ['.bz2'];
+  }
+
+  /**
+   * 获取格式名称
+   */
+  getFormatName(): string {
+    return 'bzip2';
+  }
+
+  /**
+   * 生成bzip2压缩参数，压缩级别对应100k-900k的块大小
+   */
+  static getCompressArgs(options: CompressionOptions): string[] {
+    const level = options.compressionLevel ?? 9;
+    if (!Number.isInteger(level) || level < 1 || level > 9) {
+      throw new Error('bzip2 compression level must be an integer between 1 and 9');
+    }
+    return ['-q', '-z', '-c', `-${level}`];
+  }
+
+  /**
+   * 生成bzip2解压参数
+   */
+  static getDecompressArgs(): string[] {
+    return ['-q', '-d', '-c'];
+  }
+
+  /**
+   * 创建压缩流
+   */
+  protected createCompressStream(options: CompressionOptions): Duplex {
+    return BZIP2_CODEC.createStream(Bzip2Handler.getCompressArgs(options));
+  }
+
+  /**
+   * 创建解压流
+   */
+  protected createDecompressStream(): Duplex {
+    return BZIP2_CODEC.createStream(Bzip2Handler.getDecompressArgs());
+  }
+
+  /**
+   * 获取压缩方式名称
+   */
+  protected getCompressionMethod(): string {
+    return 'bzip2';
+  }
+}
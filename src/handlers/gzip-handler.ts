@@ -1,22 +1,22 @@
 import fs from 'fs';
-import path from 'path';
-import { createReadStream, createWriteStream } from 'fs';
+import { isUtf8 } from 'buffer';
+import { Duplex, Transform, TransformCallback } from 'stream';
 import { createGzip, createGunzip } from 'zlib';
-import { pipeline } from 'stream/promises';
-import { CompressionHandler, OperationResult } from '../interfaces/compression-handler.js';
-import { 
-  CompressionUtils, 
-  ProgressCallback, 
-  CompressionOptions, 
-  DecompressionOptions, 
-  ListOptions
-} from '../utils/compression-utils.js';
+import { CompressionOptions } from '../utils/compression-utils.js';
+import { SingleFileHandler, SingleFileMetadata } from './single-file-handler.js';
+
+// gzip头部标志位
+const GZIP_FLAG_FEXTRA = 0x04;
+const GZIP_FLAG_FNAME = 0x08;
+
+// zlib生成的gzip头部长度（不含可选字段）
+const GZIP_HEADER_SIZE = 10;
 
 /**
  * GZIP格式处理器
  * 处理.gz格式文件的压缩和解压
  */
-export class GzipHandler implements CompressionHandler {
+export class GzipHandler extends SingleFileHandler {
   /**
    * 获取支持的文件扩展名
    */
@@ -32,274 +32,107 @@ export class GzipHandler implements CompressionHandler {
   }
 
   /**
-   * 检查文件格式是否有效
+   * 创建压缩流，在gzip头部记录原始文件名和修改时间
    */
-  isFormatValid(filePath: string): boolean {
-    return filePath.toLowerCase().endsWith('.gz');
+  protected createCompressStream(options: CompressionOptions, _sourceSize: number, metadata: SingleFileMetadata): Duplex {
+    const gzip = createGzip({ level: options.compressionLevel ?? 6 });
+    // Duplex.from在任一端出错时销毁整个流
+    return Duplex.from({ writable: gzip, readable: gzip.pipe(GzipHandler.createHeaderWriter(metadata)) });
   }
 
   /**
-   * 压缩文件
+   * 创建解压流
    */
-  async compress(
-    sourcePath: string,
-    targetPath: string,
-    options: CompressionOptions,
-    progressCallback?: ProgressCallback
-  ): Promise<OperationResult> {
-    try {
-      // 验证源文件存在且为文件
-      if (!await CompressionUtils.fileExists(sourcePath)) {
-        return CompressionUtils.createErrorResult(`Source file does not exist: ${sourcePath}`);
-      }
-
-      if (!await CompressionUtils.isFile(sourcePath)) {
-        return CompressionUtils.createErrorResult(
-          `Source path is not a file: ${sourcePath}`,
-          'Please use a regular file for gzip compression.'
-        );
-      }
-
-      // 获取源文件大小
-      const sourceSize = await CompressionUtils.getFileSize(sourcePath);
-      
-      // 确保目标目录存在
-      const targetDir = path.dirname(targetPath);
-      await CompressionUtils.ensureDir(targetDir);
-
-      // 设置压缩级别
-      const compressionLevel = options.compressionLevel || 6;
-      
-      // 创建读写流和gzip压缩流
-      const sourceStream = createReadStream(sourcePath);
-      const gzipStream = createGzip({ level: compressionLevel });
-      const targetStream = createWriteStream(targetPath);
-      
-      // 进度跟踪
-      let processedBytes = 0;
-      if (progressCallback) {
-        progressCallback(CompressionUtils.formatProgress(0, sourceSize, 'compressing'));
-        
-        sourceStream.on('data', (chunk) => {
-          processedBytes += chunk.length;
-          progressCallback!(CompressionUtils.formatProgress(
-            processedBytes, 
-            sourceSize, 
-            'compressing'
-          ));
-        });
-      }
+  protected createDecompressStream(): Transform {
+    return createGunzip();
+  }
 
-      // 执行压缩
-      await pipeline(sourceStream, gzipStream, targetStream);
-      
-      // 获取压缩后文件大小计算压缩比
-      const compressedSize = await CompressionUtils.getFileSize(targetPath);
-      const ratio = CompressionUtils.formatCompressionRatio(sourceSize, compressedSize);
-      
-      // 返回成功结果
-      return CompressionUtils.createSuccessResult(
-        `Successfully compressed file to ${targetPath}`,
-        {
-          originalSize: sourceSize,
-          compressedSize,
-          compressionRatio: ratio,
-          sourcePath,
-          targetPath
-        }
-      );
-    } catch (error: any) {
-      return CompressionUtils.createErrorResult(
-        `Error compressing file: ${error.message}`,
-        error.stack
-      );
-    }
+  /**
+   * 获取压缩方式名称
+   */
+  protected getCompressionMethod(): string {
+    return 'deflate';
   }
 
   /**
-   * 解压文件
+   * 创建改写gzip头部的流：zlib生成的头部不含文件名且修改时间为0，
+   * 保留其中的压缩方式、XFL和操作系统字段，设置FNAME标志并写入修改时间和文件名
    */
-  async decompress(
-    sourcePath: string,
-    targetDir: string,
-    options: DecompressionOptions,
-    progressCallback?: ProgressCallback
-  ): Promise<OperationResult> {
-    try {
-      // 验证源文件存在且为文件
-      if (!await CompressionUtils.fileExists(sourcePath)) {
-        return CompressionUtils.createErrorResult(`Source file does not exist: ${sourcePath}`);
-      }
+  static createHeaderWriter(metadata: SingleFileMetadata): Transform {
+    let pending: Buffer | null = Buffer.alloc(0);
+    return new Transform({
+      transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+        if (!pending) {
+          callback(null, chunk);
+          return;
+        }
+        pending = Buffer.concat([pending, chunk]);
+        if (pending.length < GZIP_HEADER_SIZE) {
+          callback();
+          return;
+        }
 
-      if (!await CompressionUtils.isFile(sourcePath)) {
-        return CompressionUtils.createErrorResult(`Source path is not a file: ${sourcePath}`);
-      }
+        const header = Buffer.from(pending.subarray(0, GZIP_HEADER_SIZE));
+        const rest = pending.subarray(GZIP_HEADER_SIZE);
+        pending = null;
 
-      // 确保目标目录存在
-      await CompressionUtils.ensureDir(targetDir);
-      
-      // 确定输出文件名，默认移除.gz扩展名
-      const sourceBaseName = path.basename(sourcePath);
-      let targetFileName = sourceBaseName;
-      
-      if (sourceBaseName.endsWith('.gz')) {
-        targetFileName = sourceBaseName.slice(0, -3);
-      }
-      
-      const targetPath = path.join(targetDir, targetFileName);
-      
-      // 获取源文件大小
-      const sourceSize = await CompressionUtils.getFileSize(sourcePath);
-      
-      // 创建读写流和gunzip解压流
-      const sourceStream = createReadStream(sourcePath);
-      const gunzipStream = createGunzip();
-      const targetStream = createWriteStream(targetPath);
-      
-      // 进度跟踪
-      let processedBytes = 0;
-      if (progressCallback) {
-        progressCallback(CompressionUtils.formatProgress(0, sourceSize, 'decompressing'));
-        
-        sourceStream.on('data', (chunk) => {
-          processedBytes += chunk.length;
-          progressCallback!(CompressionUtils.formatProgress(
-            processedBytes, 
-            sourceSize, 
-            'decompressing'
-          ));
-        });
-      }
+        // 修改时间为32位Unix秒数，超出范围时按规范写0表示未记录
+        const seconds = metadata.mtime ? Math.floor(metadata.mtime.getTime() / 1000) : 0;
+        header.writeUInt32LE(seconds > 0 && seconds <= 0xffffffff ? seconds : 0, 4);
 
-      // 执行解压
-      await pipeline(sourceStream, gunzipStream, targetStream);
-      
-      // 获取解压后文件大小
-      const decompressedSize = await CompressionUtils.getFileSize(targetPath);
-      
-      // 返回成功结果
-      return CompressionUtils.createSuccessResult(
-        `Successfully decompressed file to ${targetPath}`,
-        {
-          compressedSize: sourceSize,
-          decompressedSize,
-          expansionRatio: CompressionUtils.formatCompressionRatio(sourceSize, decompressedSize),
-          sourcePath,
-          targetPath
+        // 与Linux上的gzip命令一致，文件名按原始字节（UTF-8）写入，以NUL结尾
+        const fields: Buffer[] = [header];
+        if (metadata.name) {
+          header[3] |= GZIP_FLAG_FNAME;
+          fields.push(Buffer.from(metadata.name, 'utf8'), Buffer.alloc(1));
         }
-      );
-    } catch (error: any) {
-      return CompressionUtils.createErrorResult(
-        `Error decompressing file: ${error.message}`,
-        error.stack
-      );
-    }
+        callback(null, Buffer.concat([...fields, rest]));
+      }
+    });
   }
 
   /**
-   * 列出压缩文件内容
+   * 读取gzip文件头中的原始文件名、修改时间，以及尾部的CRC32和原始大小
+   * 尾部的大小字段只保存原始大小对2^32取模的结果
    */
-  async listContents(
-    sourcePath: string,
-    options: ListOptions,
-    progressCallback?: ProgressCallback
-  ): Promise<OperationResult> {
+  protected async readHeader(sourcePath: string, sourceSize: number): Promise<SingleFileMetadata> {
+    const handle = await fs.promises.open(sourcePath, 'r');
     try {
-      // 验证源文件存在且为文件
-      if (!await CompressionUtils.fileExists(sourcePath)) {
-        return CompressionUtils.createErrorResult(`Source file does not exist: ${sourcePath}`);
-      }
+      const header = Buffer.alloc(Math.min(sourceSize, 64 * 1024));
+      await handle.read(header, 0, header.length, 0);
+      const trailer = Buffer.alloc(8);
+      await handle.read(trailer, 0, 8, Math.max(0, sourceSize - 8));
 
-      if (!await CompressionUtils.isFile(sourcePath)) {
-        return CompressionUtils.createErrorResult(`Source path is not a file: ${sourcePath}`);
+      if (header.length < 10 || header[0] !== 0x1f || header[1] !== 0x8b) {
+        throw new Error('Invalid gzip header');
       }
 
-      // 检查是否为有效的gzip文件
-      if (!this.isFormatValid(sourcePath)) {
-        return CompressionUtils.createErrorResult(
-          `File is not a valid gzip file: ${sourcePath}`,
-          'File must have .gz extension'
-        );
+      const flags = header[3];
+      const mtimeSeconds = header.readUInt32LE(4);
+      const metadata: SingleFileMetadata = {
+        crc32: trailer.readUInt32LE(0),
+        size: trailer.readUInt32LE(4)
+      };
+      if (mtimeSeconds > 0) {
+        metadata.mtime = new Date(mtimeSeconds * 1000);
       }
 
-      // 获取源文件大小
-      const sourceSize = await CompressionUtils.getFileSize(sourcePath);
-      
-      // 预览长度
-      const previewLength = options.previewLength || 1000;
-      
-      if (progressCallback) {
-        progressCallback(CompressionUtils.formatProgress(0, sourceSize, 'reading'));
+      let offset = 10;
+      if (flags & GZIP_FLAG_FEXTRA) {
+        offset += 2 + header.readUInt16LE(offset);
       }
-      
-      // 创建临时缓冲区接收解压数据
-      const chunks: Buffer[] = [];
-      let totalLength = 0;
-      
-      // 初始化读取流和gunzip流
-      const sourceStream = createReadStream(sourcePath);
-      const gunzipStream = createGunzip();
-      
-      gunzipStream.on('data', (chunk) => {
-        chunks.push(chunk);
-        totalLength += chunk.length;
-        
-        // 如果已经读取足够长度，停止读取
-        if (totalLength >= previewLength) {
-          sourceStream.destroy();
-          gunzipStream.destroy();
-        }
-        
-        if (progressCallback) {
-          progressCallback(CompressionUtils.formatProgress(
-            Math.min(totalLength, sourceSize),
-            sourceSize,
-            'reading'
-          ));
-        }
-      });
-      
-      // 执行读取
-      try {
-        await pipeline(sourceStream, gunzipStream);
-      } catch (error: any) {
-        // 手动中断导致的错误可以忽略
-        if (error.code !== 'ERR_STREAM_PREMATURE_CLOSE') {
-          throw error;
+      if (flags & GZIP_FLAG_FNAME) {
+        const end = header.indexOf(0, offset);
+        if (end > offset) {
+          // 规范要求文件名为Latin-1编码，但Linux上的gzip命令写入原始字节，是有效的UTF-8时按UTF-8解码
+          const name = header.subarray(offset, end);
+          metadata.name = isUtf8(name) ? name.toString('utf8') : name.toString('latin1');
         }
       }
-      
-      // 连接所有缓冲区
-      const buffer = Buffer.concat(chunks, totalLength);
-      let previewContent = buffer.toString('utf8', 0, Math.min(previewLength, totalLength));
-      
-      // 文件名（不含.gz扩展名）
-      const originalFileName = CompressionUtils.removeExtension(path.basename(sourcePath), '.gz');
-      
-      if (progressCallback) {
-        progressCallback(CompressionUtils.formatProgress(
-          sourceSize,
-          sourceSize,
-          'complete'
-        ));
-      }
-      
-      // 返回成功结果
-      return CompressionUtils.createSuccessResult(
-        `Content preview of ${sourcePath}`,
-        {
-          fileName: originalFileName,
-          compressedSize: sourceSize,
-          previewSize: totalLength,
-          preview: previewContent,
-          isTruncated: totalLength > previewLength
-        }
-      );
-    } catch (error: any) {
-      return CompressionUtils.createErrorResult(
-        `Error reading compressed file: ${error.message}`,
-        error.stack
-      );
+
+      return metadata;
+    } finally {
+      await handle.close();
     }
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,618 @@
+import fs from 'fs';
+import path from 'path';
+import { createReadStream, createWriteStream } from 'fs';
+import { Duplex } from 'stream';
+import { pipeline } from 'stream/promises';
+import { crc32 } from 'zlib';
+import { ArchiveEntry, CompressionHandler, OperationResult } from '../interfaces/compression-handler.js';
+import {
+  CompressionUtils,
+  ProgressCallback,
+  CompressionOptions,
+  DecompressionOptions,
+  ListOptions,
+  ReadEntryOptions,
+  TestOptions
+} from '../utils/compression-utils.js';
+import { ArchiveListingBuilder } from '../utils/archive-listing-builder.js';
+import { ArchiveTestReportBuilder } from '../utils/archive-test-report-builder.js';
+import { DecompressionLimiter } from '../utils/decompression-limits.js';
+import { EntryFilter } from '../utils/entry-filter.js';
+import { EntryContentReader } from '../utils/entry-content-reader.js';
+import { GlobMatcher } from '../utils/glob-matcher.js';
+import { ConflictResolver } from '../utils/conflict-resolver.js';
+import { AtomicOutput } from '../utils/atomic-output.js';
+import { MetadataRestorer } from '../utils/metadata-restorer.js';
+import { EntryChecksums } from '../utils/checksum-manifest.js';
+
+/**
+ * 单文件压缩格式记录的元数据，格式没有记录的字段为空
+ */
+export interface SingleFileMetadata {
+  name?: string;
+  mtime?: Date;
+  crc32?: number;
+  size?: number;
+}
+
+/**
+ * 单文件压缩格式处理器基类
+ * gzip、brotli等格式只包含一个条目，子类只需提供压缩流和解压流；
+ * 文件头中记录了原始文件名等信息的格式可覆盖readHeader。
+ * 与gzip命令一致，压缩文件沿用源文件的权限和修改时间，解压时再恢复到输出文件
+ */
+export abstract class SingleFileHandler implements CompressionHandler {
+  abstract getSupportedExtensions(): string[];
+
+  abstract getFormatName(): string;
+
+  /**
+   * 创建压缩流
+   * @param sourceSize 源文件大小，部分格式可据此优化压缩参数
+   * @param metadata 源文件的文件名和修改时间，文件头可记录这些信息的格式写入文件头
+   */
+  protected abstract createCompressStream(options: CompressionOptions, sourceSize: number, metadata: SingleFileMetadata): Duplex;
+
+  /**
+   * 创建解压流
+   */
+  protected abstract createDecompressStream(): Duplex;
+
+  /**
+   * 获取列表中显示的压缩方式名称
+   */
+  protected abstract getCompressionMethod(): string;
+
+  /**
+   * 检查文件格式是否有效
+   */
+  isFormatValid(filePath: string): boolean {
+    const lowerPath = filePath.toLowerCase();
+    return this.getSupportedExtensions().some(ext => lowerPath.endsWith(ext));
+  }
+
+  /**
+   * 压缩文件
+   */
+  async compress(
+    sourcePath: string,
+    targetPath: string,
+    options: CompressionOptions,
+    progressCallback?: ProgressCallback
+  ): Promise<OperationResult> {
+    try {
+      // 将路径限制在允许访问的根目录内
+      sourcePath = await CompressionUtils.resolveSafePath(sourcePath);
+      targetPath = await CompressionUtils.resolveSafePath(targetPath);
+
+      // 验证源文件存在且为文件
+      if (!await CompressionUtils.fileExists(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source file does not exist: ${sourcePath}`);
+      }
+
+      if (!await CompressionUtils.isFile(sourcePath)) {
+        return CompressionUtils.createErrorResult(
+          `Source path is not a file: ${sourcePath}`,
+          `Please use a regular file for ${this.getFormatName()} compression.`
+        );
+      }
+
+      // 按onConflict策略处理已存在的输出文件
+      const conflicts = new ConflictResolver(options.onConflict);
+      const outputPath = await conflicts.resolveTarget(targetPath, sourcePath);
+      if (!outputPath) {
+        return conflicts.createSkippedResult(sourcePath, targetPath);
+      }
+      targetPath = outputPath;
+
+      // 获取源文件大小、权限和修改时间
+      const sourceStats = await fs.promises.stat(sourcePath);
+      const sourceSize = sourceStats.size;
+
+      // 确保目标目录存在
+      const targetDir = path.dirname(targetPath);
+      await CompressionUtils.ensureDir(targetDir);
+
+      // 创建读取流和压缩流
+      const entryName = path.basename(sourcePath);
+      const sourceStream = createReadStream(sourcePath);
+      const compressStream = this.createCompressStream(options, sourceSize, {
+        name: entryName,
+        mtime: sourceStats.mtime
+      });
+
+      // 按需在压缩时随文件数据计算校验值，用于校验清单
+      const checksums = options.checksum ? new EntryChecksums(options.checksum) : undefined;
+      const hash = checksums?.begin(entryName);
+      if (hash) {
+        sourceStream.on('data', (chunk) => hash.update(chunk as Buffer));
+      }
+
+      // 进度跟踪
+      let processedBytes = 0;
+      if (progressCallback) {
+        progressCallback(CompressionUtils.formatProgress(0, sourceSize, 'compressing'));
+
+        sourceStream.on('data', (chunk) => {
+          processedBytes += chunk.length;
+          progressCallback!(CompressionUtils.formatProgress(
+            processedBytes,
+            sourceSize,
+            'compressing'
+          ));
+        });
+      }
+
+      // 执行压缩，写入临时文件，完成后再替换目标文件
+      await AtomicOutput.writeFile(targetPath, async tempPath => {
+        await pipeline(sourceStream, compressStream, createWriteStream(tempPath));
+        await fs.promises.chmod(tempPath, sourceStats.mode & 0o777);
+        await fs.promises.utimes(tempPath, sourceStats.atime, sourceStats.mtime);
+      });
+      hash?.end();
+
+      // 获取压缩后文件大小计算压缩比
+      const compressedSize = await CompressionUtils.getFileSize(targetPath);
+      const ratio = CompressionUtils.formatCompressionRatio(sourceSize, compressedSize);
+
+      // 返回成功结果
+      return CompressionUtils.createSuccessResult(
+        `Successfully compressed file to ${targetPath}`,
+        {
+          originalSize: sourceSize,
+          compressedSize,
+          compressionRatio: ratio,
+          ...conflicts.getReport(),
+          ...(checksums ? { entryChecksums: checksums.getEntries() } : {}),
+          sourcePath,
+          targetPath
+        }
+      );
+    } catch (error: any) {
+      return CompressionUtils.createErrorResult(
+        `Error compressing file: ${error.message}`,
+        error.stack
+      );
+    }
+  }
+
+  /**
+   * 解压文件
+   */
+  async decompress(
+    sourcePath: string,
+    targetDir: string,
+    options: DecompressionOptions,
+    progressCallback?: ProgressCallback
+  ): Promise<OperationResult> {
+    try {
+      // 将路径限制在允许访问的根目录内
+      sourcePath = await CompressionUtils.resolveSafePath(sourcePath);
+      targetDir = await CompressionUtils.resolveSafePath(targetDir);
+
+      // 验证源文件存在且为文件
+      if (!await CompressionUtils.fileExists(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source file does not exist: ${sourcePath}`);
+      }
+
+      if (!await CompressionUtils.isFile(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source path is not a file: ${sourcePath}`);
+      }
+
+      // 确保目标目录存在
+      await CompressionUtils.ensureDir(targetDir);
+
+      // 确定输出文件名，默认移除压缩扩展名
+      let targetFileName = this.getDefaultEntryName(sourcePath);
+      // 文件名没有压缩扩展名时（按内容识别的格式）追加.out，避免覆盖源文件
+      if (path.join(targetDir, targetFileName) === sourcePath) {
+        targetFileName += '.out';
+      }
+      let targetPath = path.join(targetDir, targetFileName);
+
+      // 获取源文件大小
+      const sourceSize = await CompressionUtils.getFileSize(sourcePath);
+
+      // 只包含单个条目，按输出文件名匹配include/exclude模式
+      const filter = new EntryFilter(options.include, options.exclude);
+      if (!filter.matches(targetFileName)) {
+        return CompressionUtils.createSuccessResult(
+          `No entries in ${sourcePath} matched the include/exclude patterns`,
+          {
+            compressedSize: sourceSize,
+            decompressedSize: 0,
+            unmatchedPatterns: filter.getUnmatchedPatterns(),
+            sourcePath,
+            targetDir
+          }
+        );
+      }
+
+      // 按onConflict策略处理已存在的输出文件，keep-newer使用文件头中记录的修改时间，未记录时使用压缩文件的修改时间
+      const conflicts = new ConflictResolver(options.onConflict);
+      const sourceStats = await fs.promises.stat(sourcePath);
+      const outputPath = await conflicts.resolve(targetPath, async () =>
+        (await this.readHeader(sourcePath, sourceSize)).mtime || sourceStats.mtime
+      );
+      if (!outputPath) {
+        return CompressionUtils.createSuccessResult(
+          `Output file already exists, skipped decompressing ${sourcePath}: ${targetPath}`,
+          {
+            compressedSize: sourceSize,
+            decompressedSize: 0,
+            unmatchedPatterns: filter.getUnmatchedPatterns(),
+            ...conflicts.getReport(),
+            sourcePath,
+            targetPath
+          }
+        );
+      }
+      targetPath = outputPath;
+
+      // 创建读取流和解压流
+      const sourceStream = createReadStream(sourcePath);
+      const decompressStream = this.createDecompressStream();
+
+      // 进度跟踪
+      let processedBytes = 0;
+      if (progressCallback) {
+        progressCallback(CompressionUtils.formatProgress(0, sourceSize, 'decompressing'));
+
+        sourceStream.on('data', (chunk) => {
+          processedBytes += chunk.length;
+          progressCallback!(CompressionUtils.formatProgress(
+            processedBytes,
+            sourceSize,
+            'decompressing'
+          ));
+        });
+      }
+
+      // 执行解压，写入临时文件，完成后再替换目标文件；出错（如超出解压限制）时删除临时文件
+      // 输出文件的权限和所有者取自压缩文件，修改时间优先使用文件头中记录的时间
+      const limiter = new DecompressionLimiter(sourceSize, options);
+      limiter.addEntry(targetFileName);
+      const restorer = new MetadataRestorer(options.preserveOwnership);
+      await AtomicOutput.writeFile(targetPath, async tempPath => {
+        await pipeline(sourceStream, decompressStream, limiter.createMeter(), createWriteStream(tempPath));
+        await restorer.restore(tempPath, targetFileName, {
+          mode: sourceStats.mode & 0o777,
+          mtime: (await this.readHeader(sourcePath, sourceSize)).mtime || sourceStats.mtime,
+          uid: sourceStats.uid,
+          gid: sourceStats.gid
+        });
+      });
+
+      // 获取解压后文件大小
+      const decompressedSize = await CompressionUtils.getFileSize(targetPath);
+
+      // 返回成功结果
+      return CompressionUtils.createSuccessResult(
+        `Successfully decompressed file to ${targetPath}`,
+        {
+          compressedSize: sourceSize,
+          decompressedSize,
+          expansionRatio: CompressionUtils.formatCompressionRatio(sourceSize, decompressedSize),
+          unmatchedPatterns: filter.getUnmatchedPatterns(),
+          ...conflicts.getReport(),
+          ...restorer.getReport(),
+          sourcePath,
+          targetPath
+        }
+      );
+    } catch (error: any) {
+      return CompressionUtils.createErrorResult(
+        `Error decompressing file: ${error.message}`,
+        error.stack
+      );
+    }
+  }
+
+  /**
+   * 列出压缩文件内容
+   */
+  async listContents(
+    sourcePath: string,
+    options: ListOptions,
+    progressCallback?: ProgressCallback
+  ): Promise<OperationResult> {
+    try {
+      // 将路径限制在允许访问的根目录内
+      sourcePath = await CompressionUtils.resolveSafePath(sourcePath);
+
+      // 验证源文件存在且为文件
+      if (!await CompressionUtils.fileExists(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source file does not exist: ${sourcePath}`);
+      }
+
+      if (!await CompressionUtils.isFile(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source path is not a file: ${sourcePath}`);
+      }
+
+      // 获取源文件大小
+      const sourceSize = await CompressionUtils.getFileSize(sourcePath);
+
+      // 预览长度
+      const previewLength = options.previewLength || 1000;
+
+      if (progressCallback) {
+        progressCallback(CompressionUtils.formatProgress(0, sourceSize, 'reading'));
+      }
+
+      // 创建临时缓冲区接收解压数据
+      const chunks: Buffer[] = [];
+      let totalLength = 0;
+
+      // 初始化读取流和解压流
+      const sourceStream = createReadStream(sourcePath);
+      const decompressStream = this.createDecompressStream();
+
+      decompressStream.on('data', (chunk) => {
+        chunks.push(chunk);
+        totalLength += chunk.length;
+
+        // 如果已经读取足够长度，停止读取
+        if (totalLength >= previewLength) {
+          sourceStream.destroy();
+          decompressStream.destroy();
+        }
+
+        if (progressCallback) {
+          progressCallback(CompressionUtils.formatProgress(
+            Math.min(totalLength, sourceSize),
+            sourceSize,
+            'reading'
+          ));
+        }
+      });
+
+      // 执行读取
+      try {
+        await pipeline(sourceStream, decompressStream);
+      } catch (error: any) {
+        // 手动中断导致的错误可以忽略
+        if (error.code !== 'ERR_STREAM_PREMATURE_CLOSE') {
+          throw error;
+        }
+      }
+
+      // 连接所有缓冲区
+      const buffer = Buffer.concat(chunks, totalLength);
+      let previewContent = buffer.toString('utf8', 0, Math.min(previewLength, totalLength));
+
+      // 文件名（不含压缩扩展名）
+      const originalFileName = this.getDefaultEntryName(sourcePath);
+
+      // 文件头中没有记录大小和CRC32的格式需要完整解压一遍（不写入磁盘），同样受解压限制约束
+      const metadata = await this.readHeader(sourcePath, sourceSize);
+      if (metadata.size === undefined || metadata.crc32 === undefined) {
+        Object.assign(metadata, await this.scanContent(sourcePath, new DecompressionLimiter(sourceSize, options)));
+      }
+
+      if (progressCallback) {
+        progressCallback(CompressionUtils.formatProgress(
+          sourceSize,
+          sourceSize,
+          'complete'
+        ));
+      }
+
+      const entry: ArchiveEntry = {
+        path: metadata.name || originalFileName,
+        type: 'file',
+        size: metadata.size!,
+        compressedSize: sourceSize,
+        crc32: CompressionUtils.formatCrc32(metadata.crc32!),
+        compressionMethod: this.getCompressionMethod()
+      };
+      if (metadata.mtime) {
+        entry.mtime = metadata.mtime.toISOString();
+      }
+      const listing = new ArchiveListingBuilder(options);
+      listing.add(entry);
+
+      // 返回成功结果
+      return CompressionUtils.createSuccessResult(
+        `Content preview of ${sourcePath}`,
+        {
+          ...listing.build(),
+          fileName: originalFileName,
+          compressedSize: sourceSize,
+          previewSize: totalLength,
+          preview: previewContent,
+          isTruncated: totalLength > previewLength
+        }
+      );
+    } catch (error: any) {
+      return CompressionUtils.createErrorResult(
+        `Error reading compressed file: ${error.message}`,
+        error.stack
+      );
+    }
+  }
+
+  /**
+   * 读取唯一条目的内容，读取到所需范围后即停止解压
+   */
+  async readEntry(
+    sourcePath: string,
+    options: ReadEntryOptions,
+    progressCallback?: ProgressCallback
+  ): Promise<OperationResult> {
+    try {
+      // 将路径限制在允许访问的根目录内
+      sourcePath = await CompressionUtils.resolveSafePath(sourcePath);
+
+      // 验证源文件存在且为文件
+      if (!await CompressionUtils.fileExists(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source file does not exist: ${sourcePath}`);
+      }
+
+      if (!await CompressionUtils.isFile(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source path is not a file: ${sourcePath}`);
+      }
+
+      // 条目名优先取自文件头，缺失时使用去掉压缩扩展名的文件名
+      const sourceSize = await CompressionUtils.getFileSize(sourcePath);
+      const metadata = await this.readHeader(sourcePath, sourceSize);
+      const entryName = metadata.name || this.getDefaultEntryName(sourcePath);
+      if (options.entryPath && GlobMatcher.normalizePath(options.entryPath) !== entryName) {
+        return CompressionUtils.createErrorResult(
+          `Entry not found in archive: ${options.entryPath}`,
+          `The only entry in a ${this.getFormatName()} file is ${entryName}`
+        );
+      }
+
+      const reader = new EntryContentReader(options);
+      const sourceStream = createReadStream(sourcePath);
+      const decompressStream = this.createDecompressStream();
+      sourceStream.on('error', (error) => decompressStream.destroy(error));
+
+      let processedBytes = 0;
+      if (progressCallback) {
+        progressCallback(CompressionUtils.formatProgress(0, sourceSize, 'reading'));
+
+        sourceStream.on('data', (chunk) => {
+          processedBytes += chunk.length;
+          progressCallback!(CompressionUtils.formatProgress(processedBytes, sourceSize, 'reading'));
+        });
+      }
+
+      try {
+        await reader.consume(sourceStream.pipe(decompressStream));
+      } finally {
+        sourceStream.destroy();
+      }
+
+      return CompressionUtils.createSuccessResult(
+        `Read ${entryName} from ${sourcePath}`,
+        {
+          sourcePath,
+          entryPath: entryName,
+          entrySize: metadata.size,
+          ...reader.build()
+        }
+      );
+    } catch (error: any) {
+      return CompressionUtils.createErrorResult(
+        `Error reading compressed file: ${error.message}`,
+        error.stack
+      );
+    }
+  }
+
+  /**
+   * 测试完整性：完整解压一遍，由解压流校验格式自带的校验和（如gzip尾部的CRC32和长度）
+   * 指定checksum时同时计算清单使用的校验值
+   */
+  async test(
+    sourcePath: string,
+    options: TestOptions,
+    progressCallback?: ProgressCallback
+  ): Promise<OperationResult> {
+    try {
+      // 将路径限制在允许访问的根目录内
+      sourcePath = await CompressionUtils.resolveSafePath(sourcePath);
+
+      // 验证源文件存在且为文件
+      if (!await CompressionUtils.fileExists(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source file does not exist: ${sourcePath}`);
+      }
+
+      if (!await CompressionUtils.isFile(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source path is not a file: ${sourcePath}`);
+      }
+
+      const sourceSize = await CompressionUtils.getFileSize(sourcePath);
+      const report = new ArchiveTestReportBuilder();
+
+      // 文件头无效时无法读取条目，记为归档级错误
+      let metadata: SingleFileMetadata;
+      try {
+        metadata = await this.readHeader(sourcePath, sourceSize);
+      } catch (error: any) {
+        report.addArchiveError(error.message);
+        return report.createResult(sourcePath);
+      }
+      const entryName = metadata.name || this.getDefaultEntryName(sourcePath);
+
+      const sourceStream = createReadStream(sourcePath);
+      let processedBytes = 0;
+      if (progressCallback) {
+        progressCallback(CompressionUtils.formatProgress(0, sourceSize, 'testing'));
+
+        sourceStream.on('data', (chunk) => {
+          processedBytes += chunk.length;
+          progressCallback!(CompressionUtils.formatProgress(processedBytes, sourceSize, 'testing'));
+        });
+      }
+
+      let size = 0;
+      let checksum = 0;
+      const hash = options.checksum ? new EntryChecksums(options.checksum).begin(entryName) : undefined;
+      try {
+        await pipeline(
+          sourceStream,
+          this.createDecompressStream(),
+          async (source: AsyncIterable<Buffer>) => {
+            for await (const chunk of source) {
+              size += chunk.length;
+              checksum = crc32(chunk, checksum);
+              hash?.update(chunk);
+            }
+          }
+        );
+        report.pass(entryName, 'file', size, checksum, hash?.end());
+      } catch (error: any) {
+        report.fail(entryName, 'file', size, error.message);
+      }
+
+      return report.createResult(sourcePath);
+    } catch (error: any) {
+      return CompressionUtils.createErrorResult(
+        `Error testing ${this.getFormatName()} file: ${error.message}`,
+        error.stack
+      );
+    }
+  }
+
+  /**
+   * 读取文件头或尾部记录的元数据，默认格式不记录任何元数据
+   */
+  protected async readHeader(_sourcePath: string, _sourceSize: number): Promise<SingleFileMetadata> {
+    return {};
+  }
+
+  /**
+   * 获取默认的条目名：去掉压缩扩展名的文件名
+   */
+  protected getDefaultEntryName(sourcePath: string): string {
+    const baseName = path.basename(sourcePath);
+    const extension = this.getSupportedExtensions().find(ext => baseName.toLowerCase().endsWith(ext));
+    return extension ? baseName.slice(0, -extension.length) : baseName;
+  }
+
+  /**
+   * 流式解压整个文件，计算原始大小和CRC32
+   * @param limiter 计量解压输出，超出限制时中止
+   */
+  private async scanContent(
+    sourcePath: string,
+    limiter: DecompressionLimiter
+  ): Promise<Required<Pick<SingleFileMetadata, 'size' | 'crc32'>>> {
+    let size = 0;
+    let checksum = 0;
+    await pipeline(
+      createReadStream(sourcePath),
+      this.createDecompressStream(),
+      limiter.createMeter(),
+      async (source: AsyncIterable<Buffer>) => {
+        for await (const chunk of source) {
+          size += chunk.length;
+          checksum = crc32(chunk, checksum);
+        }
+      }
+    );
+    return { size, crc32: checksum };
+  }
+}
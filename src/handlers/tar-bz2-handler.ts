@@ -0,0 +1,38 @@
+import { Duplex } from 'stream';
+import { CompressionOptions } from '../utils/compression-utils.js';
+import { TarGzHandler } from './tar-gz-handler.js';
+import { BZIP2_CODEC, Bzip2Handler } from './bzip2-handler.js';
+
+/**
+ * TAR.BZ2格式处理器
+ * 打包和解包逻辑与TAR.GZ相同，仅压缩层改为bzip2
+ */
+export class TarBz2Handler extends TarGzHandler {
+  /**
+   * 获取支持的文件扩展名
+   */
+  getSupportedExtensions(): string[] {
+    return ['.tar.bz2', '.tbz2'];
+  }
+
+  /**
+   * 获取格式名称
+   */
+  getFormatName(): string {
+    return 'tar.bz2';
+  }
+
+  /**
+   * 创建压缩流
+   */
+  protected createCompressStream(options: CompressionOptions): Duplex {
+    return BZIP2_CODEC.createStream(Bzip2Handler.getCompressArgs(options));
+  }
+
+  /**
+   * 创建解压流
+   */
+  protected createDecompressStream(): Duplex {
+    return BZIP2_CODEC.createStream(Bzip2Handler.getDecompressArgs());
+  }
+}
@@ -0,0 +1,730 @@
+import fs from 'fs';
+import path from 'path';
+import { createReadStream, createWriteStream } from 'fs';
+import { crc32, createGzip, createGunzip } from 'zlib';
+import { Duplex, Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import * as tarStream from 'tar-stream';
+import {
+  ArchiveEntry,
+  ArchiveEntryType,
+  CompressionHandler,
+  OperationResult
+} from '../interfaces/compression-handler.js';
+import {
+  CompressionUtils,
+  ProgressCallback,
+  CompressionOptions,
+  DecompressionOptions,
+  ListOptions,
+  DirectoryEntry,
+  ReadEntryOptions,
+  TestOptions,
+  ModifyOptions
+} from '../utils/compression-utils.js';
+import { ArchiveListingBuilder } from '../utils/archive-listing-builder.js';
+import { ArchiveModificationPlan } from '../utils/archive-modification-plan.js';
+import { ArchiveTestReportBuilder } from '../utils/archive-test-report-builder.js';
+import { ExtractionGuard } from '../utils/extraction-guard.js';
+import { ConflictResolver } from '../utils/conflict-resolver.js';
+import { ExtractionStage } from '../utils/extraction-stage.js';
+import { MetadataRestorer } from '../utils/metadata-restorer.js';
+import { AtomicOutput } from '../utils/atomic-output.js';
+import { DecompressionLimiter } from '../utils/decompression-limits.js';
+import { EntryFilter } from '../utils/entry-filter.js';
+import { SourceFilter } from '../utils/source-filter.js';
+import { EntryContentReader } from '../utils/entry-content-reader.js';
+import { GlobMatcher } from '../utils/glob-matcher.js';
+import { EntryChecksums } from '../utils/checksum-manifest.js';
+
+// tar头部记录的修改时间精度为1秒
+const TAR_TIME_PRECISION = 1000;
+
+/**
+ * TAR.GZ格式处理器
+ * 使用tar-stream流式打包/解包，文件内容不会整体读入内存
+ */
+export class TarGzHandler implements CompressionHandler {
+  /**
+   * 获取支持的文件扩展名
+   */
+  getSupportedExtensions(): string[] {
+    return ['.tar.gz', '.tgz'];
+  }
+
+  /**
+   * 获取格式名称
+   */
+  getFormatName(): string {
+    return 'tar.gz';
+  }
+
+  /**
+   * 检查文件格式是否有效
+   */
+  isFormatValid(filePath: string): boolean {
+    const lowerPath = filePath.toLowerCase();
+    return this.getSupportedExtensions().some(ext => lowerPath.endsWith(ext));
+  }
+
+  /**
+   * 创建压缩流
+   */
+  protected createCompressStream(options: CompressionOptions): Duplex {
+    return createGzip({ level: options.compressionLevel ?? 6 });
+  }
+
+  /**
+   * 创建解压流
+   */
+  protected createDecompressStream(): Duplex {
+    return createGunzip();
+  }
+
+  /**
+   * 压缩文件或文件夹
+   */
+  async compress(
+    sourcePath: string,
+    targetPath: string,
+    options: CompressionOptions,
+    progressCallback?: ProgressCallback
+  ): Promise<OperationResult> {
+    try {
+      // 将路径限制在允许访问的根目录内
+      sourcePath = await CompressionUtils.resolveSafePath(sourcePath);
+      targetPath = await CompressionUtils.resolveSafePath(targetPath);
+
+      // 验证源路径存在
+      if (!await CompressionUtils.fileExists(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source path does not exist: ${sourcePath}`);
+      }
+
+      // 遍历一次源路径收集需要打包的条目，同时统计总大小和条目数；同一文件的多个硬链接只保存一份内容
+      // 源文件夹中匹配exclude或忽略文件规则的条目不打包
+      const filter = new SourceFilter(options);
+      const { entries, totalSize: originalSize, fileCount, directoryCount, linkCount, latestMtime, skippedEntries } =
+        await CompressionUtils.collectSourceEntries(sourcePath, { symlinks: options.symlinks, hardlinks: true, filter });
+
+      // 按onConflict策略处理已存在的输出文件，keep-newer使用遍历时得到的最新修改时间
+      const conflicts = new ConflictResolver(options.onConflict);
+      const outputPath = await conflicts.resolve(targetPath, latestMtime);
+      if (!outputPath) {
+        return conflicts.createSkippedResult(sourcePath, targetPath);
+      }
+      targetPath = outputPath;
+
+      // 确保目标目录存在
+      await CompressionUtils.ensureDir(path.dirname(targetPath));
+
+      // 按需在打包时随文件数据计算各条目的校验值，用于校验清单
+      const checksums = options.checksum ? new EntryChecksums(options.checksum) : undefined;
+
+      // 连接管道：tar打包流 -> 压缩流 -> 临时文件输出流，完成后再替换目标文件
+      await AtomicOutput.writeFile(targetPath, async (tempPath) => {
+        const pack = tarStream.pack();
+        const writing = pipeline(pack as unknown as Readable, this.createCompressStream(options), createWriteStream(tempPath));
+
+        const packing = (async () => {
+          let processedBytes = 0;
+          if (progressCallback) {
+            progressCallback(CompressionUtils.formatProgress(0, originalSize, 'compressing'));
+          }
+
+          for (const entry of entries) {
+            const hash = entry.type === 'file' ? checksums?.begin(entry.relativePath) : undefined;
+            await TarGzHandler.packEntry(pack, entry.relativePath, entry, (chunk) => {
+              hash?.update(chunk);
+              if (progressCallback) {
+                processedBytes += chunk.length;
+                progressCallback(CompressionUtils.formatProgress(
+                  processedBytes,
+                  originalSize,
+                  'compressing',
+                  entry.relativePath
+                ));
+              }
+            });
+            hash?.end();
+            if (entry.type === 'hardlink' && entry.linkTarget) {
+              checksums?.addCopy(entry.relativePath, entry.linkTarget);
+            }
+          }
+
+          pack.finalize();
+        })().catch((error) => {
+          pack.destroy(error);
+          throw error;
+        });
+
+        await Promise.all([packing, writing]);
+      });
+
+      // 获取压缩后文件大小计算压缩比
+      const compressedSize = await CompressionUtils.getFileSize(targetPath);
+
+      return CompressionUtils.createSuccessResult(
+        `Successfully compressed ${sourcePath} to ${targetPath}`,
+        {
+          originalSize,
+          compressedSize,
+          compressionRatio: CompressionUtils.formatCompressionRatio(originalSize, compressedSize),
+          fileCount,
+          directoryCount,
+          linkCount,
+          skippedEntries,
+          ...filter.getReport(),
+          ...conflicts.getReport(),
+          ...(checksums ? { entryChecksums: checksums.getEntries() } : {}),
+          sourcePath,
+          targetPath
+        }
+      );
+    } catch (error: any) {
+      return CompressionUtils.createErrorResult(
+        `Error compressing to ${this.getFormatName()}: ${error.message}`,
+        error.stack
+      );
+    }
+  }
+
+  /**
+   * 解压文件
+   */
+  async decompress(
+    sourcePath: string,
+    targetDir: string,
+    options: DecompressionOptions,
+    progressCallback?: ProgressCallback
+  ): Promise<OperationResult> {
+    try {
+      // 将路径限制在允许访问的根目录内
+      sourcePath = await CompressionUtils.resolveSafePath(sourcePath);
+      targetDir = await CompressionUtils.resolveSafePath(targetDir);
+
+      // 验证源文件存在且为文件
+      if (!await CompressionUtils.fileExists(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source file does not exist: ${sourcePath}`);
+      }
+
+      if (!await CompressionUtils.isFile(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source path is not a file: ${sourcePath}`);
+      }
+
+      // 确保目标目录存在
+      await CompressionUtils.ensureDir(targetDir);
+
+      const stripComponents = options.stripComponents || 0;
+      const compressedSize = await CompressionUtils.getFileSize(sourcePath);
+
+      let decompressedSize = 0;
+      let fileCount = 0;
+      let directoryCount = 0;
+      let linkCount = 0;
+      const limiter = new DecompressionLimiter(compressedSize, options);
+      const filter = new EntryFilter(options.include, options.exclude);
+      const conflicts = new ConflictResolver(options.onConflict);
+      const restorer = new MetadataRestorer(options.preserveOwnership);
+
+      // 先解压到临时目录，全部完成后再合并到目标目录
+      const stage = await ExtractionStage.create(targetDir, conflicts);
+      const guard = new ExtractionGuard(stage.stagingDir);
+      try {
+        await this.readEntries(sourcePath, async (header, stream) => {
+          if (!filter.matches(header.name)) {
+            return;
+          }
+          limiter.addEntry(header.name);
+
+          const entryPath = CompressionUtils.stripPathComponents(header.name, stripComponents);
+          if (!entryPath) {
+            return;
+          }
+
+          // 设备文件、FIFO等特殊条目不解压
+          const entryType = header.type || 'file';
+          if (!['directory', 'file', 'contiguous-file', 'symlink', 'link'].includes(entryType)) {
+            guard.skipSpecialFile(header.name, entryType);
+            return;
+          }
+
+          const outputPath = await guard.resolveOutputPath(header.name, entryPath);
+          if (!outputPath) {
+            return;
+          }
+
+          const metadata = {
+            mode: header.mode !== undefined ? header.mode & 0o7777 : undefined,
+            mtime: header.mtime,
+            uid: header.uid,
+            gid: header.gid
+          };
+          if (entryType === 'directory') {
+            await guard.removeExistingLink(outputPath);
+            await CompressionUtils.ensureDir(outputPath);
+            // 目录的权限和修改时间在合并到目标目录后恢复
+            restorer.deferDirectory(outputPath, header.name, metadata);
+            directoryCount++;
+            return;
+          }
+
+          // 已存在的文件和链接按onConflict策略处理，目录直接合并
+          const writePath = await stage.resolveConflict(outputPath, header.mtime);
+          if (!writePath) {
+            return;
+          }
+          await guard.removeExistingLink(writePath);
+
+          switch (entryType) {
+            case 'file':
+            case 'contiguous-file': {
+              await CompressionUtils.ensureDir(path.dirname(writePath));
+              await pipeline(stream, limiter.createMeter(), createWriteStream(writePath));
+              await restorer.restore(writePath, header.name, metadata);
+              decompressedSize += header.size || 0;
+              fileCount++;
+              break;
+            }
+
+            case 'symlink': {
+              const linkTarget = header.linkname || '';
+              await CompressionUtils.ensureDir(path.dirname(writePath));
+              if (!await guard.checkSymlink(header.name, writePath, linkTarget)) {
+                break;
+              }
+              await fs.promises.rm(writePath, { force: true });
+              await fs.promises.symlink(linkTarget, writePath);
+              await restorer.restore(writePath, header.name, metadata, true);
+              linkCount++;
+              break;
+            }
+
+            case 'link': {
+              // 硬链接目标同样是归档内路径，需要按相同规则去除前缀
+              const linkName = header.linkname || '';
+              const linkPath = await guard.resolveHardlinkTarget(
+                header.name,
+                linkName,
+                CompressionUtils.stripPathComponents(linkName, stripComponents),
+                outputPath => stage.getWrittenPath(outputPath)
+              );
+              if (!linkPath) {
+                break;
+              }
+              await CompressionUtils.ensureDir(path.dirname(writePath));
+              await fs.promises.rm(writePath, { force: true });
+              await fs.promises.link(linkPath, writePath);
+              linkCount++;
+              break;
+            }
+          }
+        }, progressCallback, 'decompressing');
+
+        await stage.commit(guard);
+        await restorer.restoreDirectories(stagedPath => stage.getCommittedPath(stagedPath));
+      } finally {
+        // 出错（如超出解压限制）时目标目录保持不变
+        await stage.discard();
+      }
+
+      return CompressionUtils.createSuccessResult(
+        `Successfully decompressed ${sourcePath} to ${targetDir}`,
+        {
+          compressedSize,
+          decompressedSize,
+          expansionRatio: CompressionUtils.formatCompressionRatio(compressedSize, decompressedSize),
+          fileCount,
+          directoryCount,
+          linkCount,
+          skippedEntries: guard.getSkippedEntries(),
+          unmatchedPatterns: filter.getUnmatchedPatterns(),
+          ...conflicts.getReport(),
+          ...restorer.getReport(),
+          stripComponents,
+          sourcePath,
+          targetDir
+        }
+      );
+    } catch (error: any) {
+      return CompressionUtils.createErrorResult(
+        `Error decompressing ${this.getFormatName()} file: ${error.message}`,
+        error.stack
+      );
+    }
+  }
+
+  /**
+   * 列出压缩文件内容
+   */
+  async listContents(
+    sourcePath: string,
+    options: ListOptions,
+    progressCallback?: ProgressCallback
+  ): Promise<OperationResult> {
+    try {
+      // 将路径限制在允许访问的根目录内
+      sourcePath = await CompressionUtils.resolveSafePath(sourcePath);
+
+      // 验证源文件存在且为文件
+      if (!await CompressionUtils.fileExists(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source file does not exist: ${sourcePath}`);
+      }
+
+      if (!await CompressionUtils.isFile(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source path is not a file: ${sourcePath}`);
+      }
+
+      const compressedSize = await CompressionUtils.getFileSize(sourcePath);
+      const listing = new ArchiveListingBuilder(options);
+
+      await this.readEntries(sourcePath, async (header) => {
+        const entry: ArchiveEntry = {
+          path: header.name,
+          type: TarGzHandler.toEntryType(header.type),
+          size: header.size || 0,
+          compressionMethod: this.getFormatName()
+        };
+        if (header.mtime) {
+          entry.mtime = header.mtime.toISOString();
+        }
+        if (header.mode !== undefined) {
+          entry.mode = header.mode & 0o7777;
+        }
+        if (header.linkname) {
+          entry.linkTarget = header.linkname;
+        }
+        listing.add(entry);
+      }, progressCallback, 'reading');
+
+      return CompressionUtils.createSuccessResult(
+        `Contents of ${sourcePath}`,
+        {
+          compressedSize,
+          ...listing.build()
+        }
+      );
+    } catch (error: any) {
+      return CompressionUtils.createErrorResult(
+        `Error reading ${this.getFormatName()} file: ${error.message}`,
+        error.stack
+      );
+    }
+  }
+
+  /**
+   * 读取单个条目的内容，找到条目并读取到所需范围后即停止解压
+   */
+  async readEntry(
+    sourcePath: string,
+    options: ReadEntryOptions,
+    progressCallback?: ProgressCallback
+  ): Promise<OperationResult> {
+    try {
+      // 将路径限制在允许访问的根目录内
+      sourcePath = await CompressionUtils.resolveSafePath(sourcePath);
+
+      // 验证源文件存在且为文件
+      if (!await CompressionUtils.fileExists(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source file does not exist: ${sourcePath}`);
+      }
+
+      if (!await CompressionUtils.isFile(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source path is not a file: ${sourcePath}`);
+      }
+
+      if (!options.entryPath) {
+        return CompressionUtils.createErrorResult('entryPath is required to read an entry from a tar archive');
+      }
+
+      const entryPath = GlobMatcher.normalizePath(options.entryPath);
+      const reader = new EntryContentReader(options);
+      let found: tarStream.Header | null = null;
+
+      await this.readEntries(sourcePath, async (header, stream) => {
+        if (GlobMatcher.normalizePath(header.name) !== entryPath) {
+          return true;
+        }
+        found = header;
+        if (TarGzHandler.toEntryType(header.type) === 'file') {
+          await reader.consume(stream);
+        }
+        return false;
+      }, progressCallback, 'reading');
+
+      const header = found as tarStream.Header | null;
+      if (!header) {
+        return CompressionUtils.createErrorResult(`Entry not found in archive: ${options.entryPath}`);
+      }
+
+      const type = TarGzHandler.toEntryType(header.type);
+      if (type !== 'file') {
+        return CompressionUtils.createErrorResult(
+          `Entry is not a regular file: ${header.name} (${type})`,
+          header.linkname ? `Link target: ${header.linkname}` : undefined
+        );
+      }
+
+      return CompressionUtils.createSuccessResult(
+        `Read ${header.name} from ${sourcePath}`,
+        {
+          sourcePath,
+          entryPath: header.name,
+          entrySize: header.size || 0,
+          ...reader.build()
+        }
+      );
+    } catch (error: any) {
+      return CompressionUtils.createErrorResult(
+        `Error reading entry from ${this.getFormatName()} file: ${error.message}`,
+        error.stack
+      );
+    }
+  }
+
+  /**
+   * 测试完整性：流式读取每个条目并计算CRC32，指定checksum时同时计算清单使用的校验值
+   * tar头部的校验和与条目长度由tar-stream校验，压缩层的校验和由解压流校验
+   */
+  async test(
+    sourcePath: string,
+    options: TestOptions,
+    progressCallback?: ProgressCallback
+  ): Promise<OperationResult> {
+    try {
+      // 将路径限制在允许访问的根目录内
+      sourcePath = await CompressionUtils.resolveSafePath(sourcePath);
+
+      // 验证源文件存在且为文件
+      if (!await CompressionUtils.fileExists(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source file does not exist: ${sourcePath}`);
+      }
+
+      if (!await CompressionUtils.isFile(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source path is not a file: ${sourcePath}`);
+      }
+
+      const report = new ArchiveTestReportBuilder();
+      const checksums = options.checksum ? new EntryChecksums(options.checksum) : undefined;
+      let current: tarStream.Header | null = null;
+
+      try {
+        await this.readEntries(sourcePath, async (header, stream) => {
+          const type = TarGzHandler.toEntryType(header.type);
+          current = header;
+          let checksum: number | undefined;
+          let digest: string | undefined;
+          if (type === 'file') {
+            checksum = 0;
+            const hash = checksums?.begin(header.name);
+            for await (const chunk of stream) {
+              checksum = crc32(chunk, checksum);
+              hash?.update(chunk);
+            }
+            digest = hash?.end();
+          } else if (type === 'hardlink' && header.linkname) {
+            checksums?.addCopy(header.name, header.linkname);
+            digest = checksums?.get(header.name);
+          }
+          report.pass(header.name, type, header.size || 0, checksum, digest);
+          current = null;
+        }, progressCallback, 'testing');
+      } catch (error: any) {
+        // 读取条目数据时出错归为该条目，其余（如压缩层校验和错误）归为归档级错误
+        const failed = current as tarStream.Header | null;
+        if (failed) {
+          report.fail(failed.name, TarGzHandler.toEntryType(failed.type), failed.size || 0, error.message);
+        } else {
+          report.addArchiveError(error.message);
+        }
+      }
+
+      return report.createResult(sourcePath);
+    } catch (error: any) {
+      return CompressionUtils.createErrorResult(
+        `Error testing ${this.getFormatName()} file: ${error.message}`,
+        error.stack
+      );
+    }
+  }
+
+  /**
+   * 修改已有归档：解压一遍原归档，保留的条目原样写入新归档，最后追加新条目
+   */
+  async modify(
+    sourcePath: string,
+    options: ModifyOptions,
+    progressCallback?: ProgressCallback
+  ): Promise<OperationResult> {
+    try {
+      // 将路径限制在允许访问的根目录内
+      sourcePath = await CompressionUtils.resolveSafePath(sourcePath);
+
+      // 验证源文件存在且为文件
+      if (!await CompressionUtils.fileExists(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source file does not exist: ${sourcePath}`);
+      }
+
+      if (!await CompressionUtils.isFile(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source path is not a file: ${sourcePath}`);
+      }
+
+      const plan = await ArchiveModificationPlan.create(options, TAR_TIME_PRECISION);
+
+      // tar只能顺序读写，先写入同一目录下的临时文件，完成后再替换原归档
+      const tempPath = AtomicOutput.createTempPath(sourcePath);
+      const pack = tarStream.pack();
+      const writing = pipeline(pack as unknown as Readable, this.createCompressStream(options), createWriteStream(tempPath));
+
+      const packing = (async () => {
+        await this.readEntries(sourcePath, async (header, stream) => {
+          if (!plan.keepEntry(header.name, header.mtime)) {
+            return;
+          }
+          if (TarGzHandler.toEntryType(header.type) === 'file') {
+            await pipeline(stream, pack.entry(header) as unknown as NodeJS.WritableStream);
+          } else {
+            pack.entry(header);
+          }
+        }, progressCallback, 'updating');
+
+        for (const entry of plan.getNewEntries()) {
+          await TarGzHandler.packEntry(pack, entry.entryName, entry);
+        }
+
+        pack.finalize();
+      })().catch((error) => {
+        pack.destroy(error);
+        throw error;
+      });
+
+      try {
+        await Promise.all([packing, writing]);
+        if (plan.hasChanges()) {
+          await CompressionUtils.replaceFile(tempPath, sourcePath);
+        }
+      } finally {
+        // 出错或没有变化时删除临时文件
+        await AtomicOutput.release(tempPath);
+      }
+
+      return plan.createResult(sourcePath, { compressedSize: await CompressionUtils.getFileSize(sourcePath) });
+    } catch (error: any) {
+      return CompressionUtils.createErrorResult(
+        `Error modifying ${this.getFormatName()} file: ${error.message}`,
+        error.stack
+      );
+    }
+  }
+
+  /**
+   * 将磁盘上的文件、目录或链接写入tar打包流，文件内容流式写入，由管道负责背压
+   * @param name 条目名；硬链接条目的linkTarget需已是归档内路径
+   * @param onData 读取文件数据时的回调，用于报告进度
+   */
+  private static async packEntry(
+    pack: tarStream.Pack,
+    name: string,
+    entry: DirectoryEntry,
+    onData?: (chunk: Buffer) => void
+  ): Promise<void> {
+    const header = {
+      name,
+      mode: entry.mode & 0o7777,
+      mtime: entry.mtime,
+      uid: entry.uid,
+      gid: entry.gid
+    };
+
+    switch (entry.type) {
+      case 'directory':
+        pack.entry({ ...header, type: 'directory' });
+        return;
+      case 'symlink':
+        pack.entry({ ...header, type: 'symlink', linkname: entry.linkTarget });
+        return;
+      case 'hardlink':
+        pack.entry({ ...header, type: 'link', linkname: entry.linkTarget });
+        return;
+    }
+
+    const source = createReadStream(entry.absolutePath);
+    if (onData) {
+      source.on('data', (chunk) => onData(chunk as Buffer));
+    }
+    await pipeline(source, pack.entry({ ...header, type: 'file', size: entry.size }) as unknown as NodeJS.WritableStream);
+  }
+
+  /**
+   * 将tar条目类型转换为统一的条目类型
+   */
+  protected static toEntryType(type?: tarStream.Header['type']): ArchiveEntryType {
+    switch (type) {
+      case undefined:
+      case null:
+      case 'file':
+      case 'contiguous-file':
+        return 'file';
+      case 'directory':
+        return 'directory';
+      case 'symlink':
+        return 'symlink';
+      case 'link':
+        return 'hardlink';
+      default:
+        return 'other';
+    }
+  }
+
+  /**
+   * 流式读取归档中的每个条目
+   * 回调返回后未读取的条目数据会被自动丢弃；回调返回false时停止读取后续条目
+   */
+  protected async readEntries(
+    sourcePath: string,
+    onEntry: (header: tarStream.Header, stream: Readable) => Promise<void | boolean>,
+    progressCallback?: ProgressCallback,
+    stage: string = 'reading'
+  ): Promise<void> {
+    const sourceSize = await CompressionUtils.getFileSize(sourcePath);
+    const sourceStream = createReadStream(sourcePath);
+    const extract = tarStream.extract();
+
+    let processedBytes = 0;
+    if (progressCallback) {
+      progressCallback(CompressionUtils.formatProgress(0, sourceSize, stage));
+
+      sourceStream.on('data', (chunk) => {
+        processedBytes += chunk.length;
+        progressCallback(CompressionUtils.formatProgress(processedBytes, sourceSize, stage));
+      });
+    }
+
+    const reading = pipeline(sourceStream, this.createDecompressStream(), extract as unknown as NodeJS.WritableStream);
+
+    let stopped = false;
+    try {
+      for await (const entry of extract) {
+        // tar-stream基于streamx实现，运行时可与Node流互操作
+        const shouldContinue = await onEntry(entry.header, entry as unknown as Readable);
+        entry.resume();
+        if (shouldContinue === false) {
+          stopped = true;
+          break;
+        }
+      }
+    } catch (error) {
+      // 提前中断会使管道以premature close失败，以回调抛出的错误为准
+      reading.catch(() => {});
+      throw error;
+    }
+
+    if (stopped) {
+      // 回调要求提前结束时不再读取剩余内容
+      reading.catch(() => {});
+      sourceStream.destroy();
+      return;
+    }
+
+    await reading;
+  }
+}
@@ -0,0 +1,38 @@
+import { Duplex } from 'stream';
+import { CompressionOptions } from '../utils/compression-utils.js';
+import { TarGzHandler } from './tar-gz-handler.js';
+import { XZ_CODEC, XzHandler } from './xz-handler.js';
+
+/**
+ * TAR.XZ格式处理器
+ * 打包和解包逻辑与TAR.GZ相同，仅压缩层改为xz
+ */
+export class TarXzHandler extends TarGzHandler {
+  /**
+   * 获取支持的文件扩展名
+   */
+  getSupportedExtensions(): string[] {
+    return ['.tar.xz', '.txz'];
+  }
+
+  /**
+   * 获取格式名称
+   */
+  getFormatName(): string {
+    return 'tar.xz';
+  }
+
+  /**
+   * 创建压缩流
+   */
+  protected createCompressStream(options: CompressionOptions): Duplex {
+    return XZ_CODEC.createStream(XzHandler.getCompressArgs(options));
+  }
+
+  /**
+   * 创建解压流
+   */
+  protected createDecompressStream(): Duplex {
+    return XZ_CODEC.createStream(XzHandler.getDecompressArgs());
+  }
+}
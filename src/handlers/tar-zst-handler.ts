@@ -0,0 +1,38 @@
+import { Duplex } from 'stream';
+import { CompressionOptions } from '../utils/compression-utils.js';
+import { TarGzHandler } from './tar-gz-handler.js';
+import { ZSTD_CODEC, ZstdHandler } from './zstd-handler.js';
+
+/**
+ * TAR.ZST格式处理器
+ * 打包和解包逻辑与TAR.GZ相同，仅压缩层改为Zstandard
+ */
+export class TarZstHandler extends TarGzHandler {
+  /**
+   * 获取支持的文件扩展名
+   */
+  getSupportedExtensions(): string[] {
+    return ['.tar.zst'];
+  }
+
+  /**
+   * 获取格式名称
+   */
+  getFormatName(): string {
+    return 'tar.zst';
+  }
+
+  /**
+   * 创建压缩流
+   */
+  protected createCompressStream(options: CompressionOptions): Duplex {
+    return ZSTD_CODEC.createStream(ZstdHandler.getCompressArgs(options));
+  }
+
+  /**
+   * 创建解压流
+   */
+  protected createDecompressStream(): Duplex {
+    return ZSTD_CODEC.createStream(ZstdHandler.getDecompressArgs());
+  }
+}
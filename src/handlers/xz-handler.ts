@@ -0,0 +1,113 @@
+import { Duplex } from 'stream';
+import { CompressionOptions } from '../utils/compression-utils.js';
+import { ExternalCodec } from '../utils/external-codec.js';
+import { SingleFileHandler } from './single-file-handler.js';
+
+// 指定xz可执行文件路径的环境变量
+export const XZ_BIN_ENV = 'XZ_BIN';
+
+// 调用系统中的xz程序（Node.js的zlib不支持LZMA）
+export const XZ_CODEC = new ExternalCodec('xz', XZ_BIN_ENV, 'xz');
+
+// xz容器格式：xz为默认的.xz格式，lzma为旧的.lzma格式
+export type XzContainerFormat = 'xz' | 'lzma';
+
+/**
+ * XZ格式处理器
+ * 处理.xz格式文件的压缩和解压，xz格式不记录原始文件名
+ */
+export class XzHandler extends SingleFileHandler {
+  /**
+   * 获取支持的文件扩展名
+   */
+  getSupportedExtensions(): string[] {
+    return ['.xz'];
+  }
+
+  /**
+   * 获取格式名称
+   */
+  getFormatName(): string {
+    return 'xz';
+  }
+
+  /**
+   * 生成xz压缩参数
+   */
+  static getCompressArgs(options: CompressionOptions, containerFormat: XzContainerFormat = 'xz'): string[] {
+    const level = options.compressionLevel ?? 6;
+    if (!Number.isInteger(level) || level < 0 || level > 9) {
+      throw new Error('xz compression level must be an integer between 0 and 9');
+    }
+    return ['-q', '-z', '-c', `--format=${containerFormat}`, `-${level}`];
+  }
+
+  /**
+   * 生成xz解压参数
+   */
+  static getDecompressArgs(containerFormat: XzContainerFormat = 'xz'): string[] {
+    return ['-q', '-d', '-c', `--format=${containerFormat}`];
+  }
+
+  /**
+   * 获取容器格式
+   */
+  protected getContainerFormat(): XzContainerFormat {
+    return 'xz';
+  }
+
+  /**
+   * 创建压缩流
+   */
+  protected createCompressStream(options: CompressionOptions): Duplex {
+    return XZ_CODEC.createStream(XzHandler.getCompressArgs(options, this.getContainerFormat()));
+  }
+
+  /**
+   * 创建解压流
+   */
+  protected createDecompressStream(): Duplex {
+    return XZ_CODEC.createStream(XzHandler.getDecompressArgs(this.getContainerFormat()));
+  }
+
+  /**
+   * 获取压缩方式名称
+   */
+  protected getCompressionMethod(): string {
+    return 'lzma2';
+  }
+}
+
+/**
+ * LZMA格式处理器
+ * 处理旧的.lzma格式（LZMA_Alone），同样通过xz程序实现
+ */
+export class LzmaHandler extends XzHandler {
+  /**
+   * 获取支持的文件扩展名
+   */
+  getSupportedExtensions(): string[] {
+    return ['.lzma'];
+  }
+
+  /**
+   * 获取格式名称
+   */
+  getFormatName(): string {
+    return 'lzma';
+  }
+
+  /**
+   * 获取容器格式
+   */
+  protected getContainerFormat(): XzContainerFormat {
+    return 'lzma';
+  }
+
+  /**
+   * 获取压缩方式名称
+   */
+  protected getCompressionMethod(): string {
+    return 'lzma';
+  }
+}
@@ -0,0 +1,866 @@
+import fs from 'fs';
+import path from 'path';
+import { createReadStream, createWriteStream } from 'fs';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { crc32, createInflateRaw, inflateRawSync } from 'zlib';
+import AdmZip from 'adm-zip';
+import { ArchiveEntry, ArchiveEntryType, CompressionHandler, OperationResult } from '../interfaces/compression-handler.js';
+import {
+  CompressionUtils,
+  ProgressCallback,
+  CompressionOptions,
+  DecompressionOptions,
+  ListOptions,
+  ReadEntryOptions,
+  TestOptions,
+  ModifyOptions,
+  DirectoryEntry
+} from '../utils/compression-utils.js';
+import { ArchiveListingBuilder } from '../utils/archive-listing-builder.js';
+import { ArchiveModificationPlan } from '../utils/archive-modification-plan.js';
+import { ArchiveTestReportBuilder } from '../utils/archive-test-report-builder.js';
+import { ExtractionGuard } from '../utils/extraction-guard.js';
+import { ConflictResolver } from '../utils/conflict-resolver.js';
+import { ExtractionStage } from '../utils/extraction-stage.js';
+import { EntryMetadata, MetadataRestorer } from '../utils/metadata-restorer.js';
+import { AtomicOutput } from '../utils/atomic-output.js';
+import { DecompressionLimiter } from '../utils/decompression-limits.js';
+import { EntryFilter } from '../utils/entry-filter.js';
+import { SourceFilter } from '../utils/source-filter.js';
+import { EntryContentReader } from '../utils/entry-content-reader.js';
+import { GlobMatcher } from '../utils/glob-matcher.js';
+import { EncryptedDataError, ZIP_METHOD_AES, ZipCrypto } from '../utils/zip-crypto.js';
+import { ZipRawEntry, ZipWriter } from '../utils/zip-writer.js';
+import { EntryChecksums } from '../utils/checksum-manifest.js';
+
+// ZIP压缩方式编号与名称的对应关系
+const ZIP_METHOD_NAMES: Record<number, string> = {
+  0: 'stored',
+  8: 'deflate',
+  9: 'deflate64',
+  12: 'bzip2',
+  14: 'lzma',
+  93: 'zstd',
+  95: 'xz',
+  98: 'ppmd',
+  99: 'aes'
+};
+
+// 通用标志位：条目已加密、CRC和大小记录在数据描述符中
+const ZIP_FLAG_ENCRYPTED = 0x01;
+const ZIP_FLAG_DATA_DESCRIPTOR = 0x08;
+
+// ZIP记录的修改时间为MS-DOS格式，精度为2秒
+const ZIP_TIME_PRECISION = 2000;
+
+// ZIP64扩展字段标识，以及需要ZIP64记录的大小
+const ZIP64_EXTRA_FIELD_ID = 0x0001;
+const ZIP64_SIZE_LIMIT = 0xffffffff;
+
+// Info-ZIP扩展时间戳字段标识，以Unix秒数记录修改时间
+const EXTENDED_TIMESTAMP_EXTRA_FIELD_ID = 0x5455;
+
+// AES加密强度编号与名称的对应关系
+const ZIP_AES_STRENGTH_NAMES: Record<number, string> = {
+  1: 'aes128',
+  2: 'aes192',
+  3: 'aes256'
+};
+
+// 允许解压的Unix文件类型：普通文件、目录和符号链接
+const ZIP_EXTRACTABLE_FILE_TYPES = new Set([0o100000, 0o040000, 0o120000]);
+
+/**
+ * ZIP格式处理器
+ * 使用ZipWriter流式创建归档，使用adm-zip读取和解压归档
+ */
+export class ZipHandler implements CompressionHandler {
+  /**
+   * 获取支持的文件扩展名
+   */
+  getSupportedExtensions(): string[] {
+    return ['.zip'];
+  }
+
+  /**
+   * 获取格式名称
+   */
+  getFormatName(): string {
+    return 'zip';
+  }
+
+  /**
+   * 检查文件格式是否有效
+   */
+  isFormatValid(filePath: string): boolean {
+    return filePath.toLowerCase().endsWith('.zip');
+  }
+
+  /**
+   * 压缩文件或文件夹
+   */
+  async compress(
+    sourcePath: string,
+    targetPath: string,
+    options: CompressionOptions,
+    progressCallback?: ProgressCallback
+  ): Promise<OperationResult> {
+    try {
+      // 将路径限制在允许访问的根目录内
+      sourcePath = await CompressionUtils.resolveSafePath(sourcePath);
+      targetPath = await CompressionUtils.resolveSafePath(targetPath);
+
+      // 验证源路径存在
+      if (!await CompressionUtils.fileExists(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source path does not exist: ${sourcePath}`);
+      }
+
+      // 遍历一次源路径收集需要压缩的条目，目录条目也写入归档，保证空目录在解压后仍然存在
+      // 源文件夹中匹配exclude或忽略文件规则的条目不压缩
+      const filter = new SourceFilter(options);
+      const source = await CompressionUtils.collectSourceEntries(sourcePath, { symlinks: options.symlinks, filter });
+
+      // 按onConflict策略处理已存在的输出文件，keep-newer使用遍历时得到的最新修改时间
+      const conflicts = new ConflictResolver(options.onConflict);
+      const outputPath = await conflicts.resolve(targetPath, source.latestMtime);
+      if (!outputPath) {
+        return conflicts.createSkippedResult(sourcePath, targetPath);
+      }
+      targetPath = outputPath;
+
+      // 确保目标目录存在
+      await CompressionUtils.ensureDir(path.dirname(targetPath));
+
+      const encryptionMethod = options.password ? options.encryptionMethod || 'aes256' : undefined;
+      const totalSize = source.totalSize;
+      const { fileCount, directoryCount, linkCount, skippedEntries } = source;
+      let originalSize = 0;
+      // 按需在压缩时随文件数据计算各条目的校验值，用于校验清单
+      const checksums = options.checksum ? new EntryChecksums(options.checksum) : undefined;
+
+      if (progressCallback) {
+        progressCallback(CompressionUtils.formatProgress(0, totalSize, 'compressing'));
+      }
+
+      // 逐个条目从磁盘流式压缩写入临时文件，完成后再替换目标文件
+      await AtomicOutput.writeFile(targetPath, async (tempPath) => {
+        const writer = new ZipWriter(createWriteStream(tempPath), {
+          compressionLevel: options.compressionLevel ?? 6,
+          password: options.password,
+          encryptionMethod
+        });
+
+        try {
+          for (const entry of source.entries) {
+            const hash = entry.type === 'file' ? checksums?.begin(entry.relativePath) : undefined;
+            await ZipHandler.addSourceEntry(writer, entry.relativePath, entry, (chunk) => {
+              hash?.update(chunk);
+              originalSize += chunk.length;
+              if (progressCallback) {
+                progressCallback(CompressionUtils.formatProgress(
+                  originalSize,
+                  totalSize,
+                  'compressing',
+                  entry.relativePath
+                ));
+              }
+            });
+            hash?.end();
+          }
+
+          await writer.finalize();
+        } catch (error) {
+          writer.destroy();
+          throw error;
+        }
+      });
+
+      // 获取压缩后文件大小计算压缩比
+      const compressedSize = await CompressionUtils.getFileSize(targetPath);
+
+      return CompressionUtils.createSuccessResult(
+        `Successfully compressed ${sourcePath} to ${targetPath}`,
+        {
+          originalSize,
+          compressedSize,
+          compressionRatio: CompressionUtils.formatCompressionRatio(originalSize, compressedSize),
+          fileCount,
+          directoryCount,
+          linkCount,
+          skippedEntries,
+          ...filter.getReport(),
+          ...(encryptionMethod ? { encryptionMethod } : {}),
+          ...conflicts.getReport(),
+          ...(checksums ? { entryChecksums: checksums.getEntries() } : {}),
+          sourcePath,
+          targetPath
+        }
+      );
+    } catch (error: any) {
+      return CompressionUtils.createErrorResult(
+        `Error compressing to zip: ${error.message}`,
+        error.stack
+      );
+    }
+  }
+
+  /**
+   * 解压文件
+   */
+  async decompress(
+    sourcePath: string,
+    targetDir: string,
+    options: DecompressionOptions,
+    progressCallback?: ProgressCallback
+  ): Promise<OperationResult> {
+    try {
+      // 将路径限制在允许访问的根目录内
+      sourcePath = await CompressionUtils.resolveSafePath(sourcePath);
+      targetDir = await CompressionUtils.resolveSafePath(targetDir);
+
+      // 验证源文件存在且为文件
+      if (!await CompressionUtils.fileExists(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source file does not exist: ${sourcePath}`);
+      }
+
+      if (!await CompressionUtils.isFile(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source path is not a file: ${sourcePath}`);
+      }
+
+      // 确保目标目录存在
+      await CompressionUtils.ensureDir(targetDir);
+
+      const zip = new AdmZip(sourcePath);
+      const filter = new EntryFilter(options.include, options.exclude);
+      const entries = zip.getEntries().filter(entry => filter.matches(entry.entryName));
+      const stripComponents = options.stripComponents || 0;
+      const compressedSize = await CompressionUtils.getFileSize(sourcePath);
+      const totalSize = entries.reduce((sum, entry) => sum + entry.header.size, 0);
+
+      // 中央目录记录了所有条目的大小，解压前即可检查限制；adm-zip解压时输出不会超过记录的大小
+      const limiter = new DecompressionLimiter(compressedSize, options);
+      for (const entry of entries) {
+        limiter.addEntry(entry.entryName);
+        limiter.addBytes(entry.header.size);
+      }
+
+      let decompressedSize = 0;
+      let fileCount = 0;
+      let directoryCount = 0;
+      let linkCount = 0;
+
+      if (progressCallback) {
+        progressCallback(CompressionUtils.formatProgress(0, totalSize, 'decompressing'));
+      }
+
+      const conflicts = new ConflictResolver(options.onConflict);
+      const restorer = new MetadataRestorer(options.preserveOwnership);
+
+      // 先解压到临时目录，全部完成后再合并到目标目录
+      const stage = await ExtractionStage.create(targetDir, conflicts);
+      const guard = new ExtractionGuard(stage.stagingDir);
+      try {
+        for (const entry of entries) {
+          const entryPath = CompressionUtils.stripPathComponents(entry.entryName, stripComponents);
+          if (!entryPath) {
+            continue;
+          }
+
+          // 由Unix系统创建的归档可能包含设备文件、FIFO等特殊条目，不解压
+          const fileType = (entry.header.attr >>> 16) & 0o170000;
+          if (fileType !== 0 && !ZIP_EXTRACTABLE_FILE_TYPES.has(fileType)) {
+            guard.skipSpecialFile(entry.entryName, `mode 0${fileType.toString(8)}`);
+            continue;
+          }
+
+          const outputPath = await guard.resolveOutputPath(entry.entryName, entryPath);
+          if (!outputPath) {
+            continue;
+          }
+
+          const metadata = ZipHandler.getEntryMetadata(entry);
+          if (entry.isDirectory) {
+            await guard.removeExistingLink(outputPath);
+            await CompressionUtils.ensureDir(outputPath);
+            // 目录的权限和修改时间在合并到目标目录后恢复
+            restorer.deferDirectory(outputPath, entry.entryName, metadata);
+            directoryCount++;
+            continue;
+          }
+
+          // 已存在的文件按onConflict策略处理
+          const writePath = await stage.resolveConflict(outputPath, metadata.mtime);
+          if (!writePath) {
+            continue;
+          }
+
+          await guard.removeExistingLink(writePath);
+
+          // adm-zip会根据条目的压缩方式(STORE/DEFLATE)解压并校验CRC，加密条目需先解密
+          const data = this.readEntryData(entry, options.password);
+          await CompressionUtils.ensureDir(path.dirname(writePath));
+
+          // 符号链接条目的内容为链接目标，目标位于目标目录内时才创建链接
+          if (ZipHandler.getEntryType(entry) === 'symlink') {
+            const linkTarget = data.toString('utf8');
+            if (await guard.checkSymlink(entry.entryName, writePath, linkTarget)) {
+              await fs.promises.rm(writePath, { force: true });
+              await fs.promises.symlink(linkTarget, writePath);
+              await restorer.restore(writePath, entry.entryName, metadata, true);
+              linkCount++;
+            }
+            continue;
+          }
+
+          await fs.promises.writeFile(writePath, data);
+          await restorer.restore(writePath, entry.entryName, metadata);
+
+          decompressedSize += data.length;
+          fileCount++;
+
+          if (progressCallback) {
+            progressCallback(CompressionUtils.formatProgress(
+              decompressedSize,
+              totalSize,
+              'decompressing',
+              entry.entryName
+            ));
+          }
+        }
+
+        await stage.commit(guard);
+        await restorer.restoreDirectories(stagedPath => stage.getCommittedPath(stagedPath));
+      } finally {
+        await stage.discard();
+      }
+
+      return CompressionUtils.createSuccessResult(
+        `Successfully decompressed ${sourcePath} to ${targetDir}`,
+        {
+          compressedSize,
+          decompressedSize,
+          expansionRatio: CompressionUtils.formatCompressionRatio(compressedSize, decompressedSize),
+          fileCount,
+          directoryCount,
+          linkCount,
+          skippedEntries: guard.getSkippedEntries(),
+          unmatchedPatterns: filter.getUnmatchedPatterns(),
+          ...conflicts.getReport(),
+          ...restorer.getReport(),
+          sourcePath,
+          targetDir
+        }
+      );
+    } catch (error: any) {
+      return CompressionUtils.createErrorResult(
+        `Error decompressing zip file: ${error.message}`,
+        error.stack
+      );
+    }
+  }
+
+  /**
+   * 列出压缩文件内容
+   */
+  async listContents(
+    sourcePath: string,
+    options: ListOptions,
+    progressCallback?: ProgressCallback
+  ): Promise<OperationResult> {
+    try {
+      // 将路径限制在允许访问的根目录内
+      sourcePath = await CompressionUtils.resolveSafePath(sourcePath);
+
+      // 验证源文件存在且为文件
+      if (!await CompressionUtils.fileExists(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source file does not exist: ${sourcePath}`);
+      }
+
+      if (!await CompressionUtils.isFile(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source path is not a file: ${sourcePath}`);
+      }
+
+      const compressedSize = await CompressionUtils.getFileSize(sourcePath);
+
+      if (progressCallback) {
+        progressCallback(CompressionUtils.formatProgress(0, compressedSize, 'reading'));
+      }
+
+      const zip = new AdmZip(sourcePath);
+      const listing = new ArchiveListingBuilder(options);
+      for (const entry of zip.getEntries()) {
+        listing.add(this.toArchiveEntry(entry));
+      }
+
+      if (progressCallback) {
+        progressCallback(CompressionUtils.formatProgress(compressedSize, compressedSize, 'complete'));
+      }
+
+      return CompressionUtils.createSuccessResult(
+        `Contents of ${sourcePath}`,
+        {
+          compressedSize,
+          ...listing.build()
+        }
+      );
+    } catch (error: any) {
+      return CompressionUtils.createErrorResult(
+        `Error reading zip file: ${error.message}`,
+        error.stack
+      );
+    }
+  }
+
+  /**
+   * 读取单个条目的内容，不写入磁盘
+   */
+  async readEntry(
+    sourcePath: string,
+    options: ReadEntryOptions,
+    progressCallback?: ProgressCallback
+  ): Promise<OperationResult> {
+    try {
+      // 将路径限制在允许访问的根目录内
+      sourcePath = await CompressionUtils.resolveSafePath(sourcePath);
+
+      // 验证源文件存在且为文件
+      if (!await CompressionUtils.fileExists(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source file does not exist: ${sourcePath}`);
+      }
+
+      if (!await CompressionUtils.isFile(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source path is not a file: ${sourcePath}`);
+      }
+
+      if (!options.entryPath) {
+        return CompressionUtils.createErrorResult('entryPath is required to read an entry from a zip archive');
+      }
+
+      const zip = new AdmZip(sourcePath);
+      const entryPath = GlobMatcher.normalizePath(options.entryPath);
+      const entry = zip.getEntries().find(item => GlobMatcher.normalizePath(item.entryName) === entryPath);
+      if (!entry) {
+        return CompressionUtils.createErrorResult(`Entry not found in archive: ${options.entryPath}`);
+      }
+
+      if (entry.isDirectory) {
+        return CompressionUtils.createErrorResult(`Entry is a directory: ${entry.entryName}`);
+      }
+
+      const entrySize = entry.header.size;
+      if (progressCallback) {
+        progressCallback(CompressionUtils.formatProgress(0, entrySize, 'reading', entry.entryName));
+      }
+
+      const reader = new EntryContentReader(options);
+      await reader.consume(this.createEntryStream(entry, options.password));
+
+      if (progressCallback) {
+        progressCallback(CompressionUtils.formatProgress(entrySize, entrySize, 'complete', entry.entryName));
+      }
+
+      return CompressionUtils.createSuccessResult(
+        `Read ${entry.entryName} from ${sourcePath}`,
+        {
+          sourcePath,
+          entryPath: entry.entryName,
+          entrySize,
+          ...reader.build()
+        }
+      );
+    } catch (error: any) {
+      return CompressionUtils.createErrorResult(
+        `Error reading entry from zip file: ${error.message}`,
+        error.stack
+      );
+    }
+  }
+
+  /**
+   * 测试完整性：流式解压每个条目，校验长度和CRC32，指定checksum时同时计算清单使用的校验值
+   * 加密条目需要提供密码，否则跳过；AES条目由认证码校验
+   */
+  async test(
+    sourcePath: string,
+    options: TestOptions,
+    progressCallback?: ProgressCallback
+  ): Promise<OperationResult> {
+    try {
+      // 将路径限制在允许访问的根目录内
+      sourcePath = await CompressionUtils.resolveSafePath(sourcePath);
+
+      // 验证源文件存在且为文件
+      if (!await CompressionUtils.fileExists(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source file does not exist: ${sourcePath}`);
+      }
+
+      if (!await CompressionUtils.isFile(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source path is not a file: ${sourcePath}`);
+      }
+
+      const report = new ArchiveTestReportBuilder();
+      const checksums = options.checksum ? new EntryChecksums(options.checksum) : undefined;
+
+      // 中央目录损坏时无法读取任何条目
+      let entries: AdmZip.IZipEntry[];
+      try {
+        entries = new AdmZip(sourcePath).getEntries();
+      } catch (error: any) {
+        report.addArchiveError(error.message);
+        return report.createResult(sourcePath);
+      }
+
+      for (let i = 0; i < entries.length; i++) {
+        const entry = entries[i];
+        const header = entry.header;
+        const type = ZipHandler.getEntryType(entry);
+
+        if (progressCallback) {
+          progressCallback(CompressionUtils.formatProgress(i, entries.length, 'testing', entry.entryName));
+        }
+
+        if (entry.isDirectory) {
+          report.pass(entry.entryName, type, 0);
+          continue;
+        }
+
+        if ((header.flags & ZIP_FLAG_ENCRYPTED) && !options.password) {
+          report.skip(entry.entryName, type, header.size, 'Entry is encrypted, a password is required to verify it');
+          continue;
+        }
+
+        let size = 0;
+        let checksum = 0;
+        const hash = type === 'file' ? checksums?.begin(entry.entryName) : undefined;
+        try {
+          for await (const chunk of this.createEntryStream(entry, options.password)) {
+            size += chunk.length;
+            checksum = crc32(chunk, checksum);
+            hash?.update(chunk);
+          }
+          if (size !== header.size) {
+            throw new Error(`Size mismatch: expected ${header.size} bytes, got ${size}`);
+          }
+          // AES条目（AE-2）不记录CRC
+          if (header.method !== ZIP_METHOD_AES && checksum !== header.crc) {
+            throw new Error(
+              `CRC32 mismatch: expected ${CompressionUtils.formatCrc32(header.crc)}, got ${CompressionUtils.formatCrc32(checksum)}`
+            );
+          }
+          report.pass(entry.entryName, type, size, checksum, hash?.end());
+        } catch (error: any) {
+          report.fail(entry.entryName, type, header.size, error.message);
+        }
+      }
+
+      if (progressCallback) {
+        progressCallback(CompressionUtils.formatProgress(entries.length, entries.length, 'complete'));
+      }
+
+      return report.createResult(sourcePath);
+    } catch (error: any) {
+      return CompressionUtils.createErrorResult(
+        `Error testing zip file: ${error.message}`,
+        error.stack
+      );
+    }
+  }
+
+  /**
+   * 修改已有归档：原样复制保留的条目（加密条目无需密码），再写入新条目
+   */
+  async modify(
+    sourcePath: string,
+    options: ModifyOptions,
+    progressCallback?: ProgressCallback
+  ): Promise<OperationResult> {
+    try {
+      // 将路径限制在允许访问的根目录内
+      sourcePath = await CompressionUtils.resolveSafePath(sourcePath);
+
+      // 验证源文件存在且为文件
+      if (!await CompressionUtils.fileExists(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source file does not exist: ${sourcePath}`);
+      }
+
+      if (!await CompressionUtils.isFile(sourcePath)) {
+        return CompressionUtils.createErrorResult(`Source path is not a file: ${sourcePath}`);
+      }
+
+      const plan = await ArchiveModificationPlan.create(options, ZIP_TIME_PRECISION);
+      const keptEntries = new AdmZip(sourcePath).getEntries()
+        .filter(entry => plan.keepEntry(entry.entryName, ZipHandler.getEntryMtime(entry)));
+      const newEntries = plan.getNewEntries();
+
+      if (!plan.hasChanges()) {
+        return plan.createResult(sourcePath, { compressedSize: await CompressionUtils.getFileSize(sourcePath) });
+      }
+
+      const totalEntries = keptEntries.length + newEntries.length;
+      let processedEntries = 0;
+      const reportProgress = (entryName: string) => {
+        if (progressCallback) {
+          progressCallback(CompressionUtils.formatProgress(++processedEntries, totalEntries, 'updating', entryName));
+        }
+      };
+
+      // 先写入同一目录下的临时文件，完成后再替换原归档
+      const tempPath = AtomicOutput.createTempPath(sourcePath);
+      const writer = new ZipWriter(createWriteStream(tempPath), {
+        compressionLevel: options.compressionLevel ?? 6,
+        password: options.password,
+        encryptionMethod: options.encryptionMethod || 'aes256'
+      });
+
+      try {
+        for (const entry of keptEntries) {
+          await writer.addRawEntry(entry.rawEntryName, ZipHandler.toRawEntry(entry), entry.getCompressedData());
+          reportProgress(entry.entryName);
+        }
+
+        for (const entry of newEntries) {
+          await ZipHandler.addSourceEntry(writer, entry.entryName, entry);
+          reportProgress(entry.entryName);
+        }
+
+        await writer.finalize();
+        await CompressionUtils.replaceFile(tempPath, sourcePath);
+      } catch (error) {
+        writer.destroy();
+        throw error;
+      } finally {
+        await AtomicOutput.release(tempPath);
+      }
+
+      return plan.createResult(sourcePath, { compressedSize: await CompressionUtils.getFileSize(sourcePath) });
+    } catch (error: any) {
+      return CompressionUtils.createErrorResult(
+        `Error modifying zip file: ${error.message}`,
+        error.stack
+      );
+    }
+  }
+
+  /**
+   * 将磁盘上的文件、目录或符号链接写入归档，文件内容流式压缩；ZIP无法保存硬链接，硬链接按普通文件写入
+   * @param onData 读取文件数据时的回调，用于报告进度
+   */
+  private static async addSourceEntry(
+    writer: ZipWriter,
+    name: string,
+    entry: DirectoryEntry,
+    onData?: (chunk: Buffer) => void
+  ): Promise<void> {
+    const entryOptions = { mtime: entry.mtime, mode: entry.mode };
+    switch (entry.type) {
+      case 'directory':
+        await writer.addDirectory(name, entryOptions);
+        break;
+      case 'symlink':
+        await writer.addSymlink(name, entry.linkTarget || '', entryOptions);
+        break;
+      default:
+        await writer.addFile(name, createReadStream(entry.absolutePath), entry.size, entryOptions, onData);
+    }
+  }
+
+  /**
+   * 创建条目内容的解压流
+   * STORE和DEFLATE条目流式解压，读取到所需范围即可停止；加密条目和其他压缩方式整体解压
+   */
+  private createEntryStream(entry: AdmZip.IZipEntry, password?: string): Readable {
+    if (entry.header.flags & ZIP_FLAG_ENCRYPTED) {
+      return Readable.from([this.readEntryData(entry, password)]);
+    }
+
+    switch (entry.header.method) {
+      case 0:
+        return Readable.from([entry.getCompressedData()]);
+      case 8: {
+        // 输出不得超过条目头中记录的大小，防止篡改的条目头导致无限解压
+        const inflate = createInflateRaw();
+        const meter = new DecompressionLimiter(entry.header.compressedSize, {
+          maxTotalSize: entry.header.size,
+          maxExpansionRatio: Infinity
+        }).createMeter();
+        inflate.on('error', error => meter.destroy(error));
+        return Readable.from([entry.getCompressedData()]).pipe(inflate).pipe(meter);
+      }
+      default:
+        return Readable.from([entry.getData()]);
+    }
+  }
+
+  /**
+   * 读取条目的解压数据，加密条目使用密码解密后再解压并校验
+   * 密码错误时抛出WrongPasswordError，数据损坏时抛出EncryptedDataError
+   */
+  private readEntryData(entry: AdmZip.IZipEntry, password?: string): Buffer {
+    const header = entry.header;
+    if (!(header.flags & ZIP_FLAG_ENCRYPTED)) {
+      return entry.getData();
+    }
+
+    if (!password) {
+      throw new Error(`Entry is encrypted, a password is required: ${entry.entryName}`);
+    }
+
+    const encrypted = entry.getCompressedData();
+    let compressed: Buffer;
+    let method = header.method;
+    let checkCrc = true;
+
+    if (header.method === ZIP_METHOD_AES) {
+      const aesInfo = ZipCrypto.parseAesExtraField(entry.extra);
+      if (!aesInfo) {
+        throw new EncryptedDataError(`Missing AES encryption field for entry: ${entry.entryName}`);
+      }
+      compressed = ZipCrypto.decryptAes(encrypted, password, aesInfo.strength, entry.entryName);
+      method = aesInfo.actualMethod;
+      // AE-2格式不记录CRC，完整性已由认证码保证
+      checkCrc = aesInfo.version === 1;
+    } else {
+      // 使用数据描述符时加密头的校验字节取自修改时间（DOS格式）的高字节
+      const checkByte = header.flags & ZIP_FLAG_DATA_DESCRIPTOR
+        ? ((header.time.getHours() << 3) | (header.time.getMinutes() >> 3)) & 0xff
+        : header.crc >>> 24;
+      compressed = ZipCrypto.decryptZipCrypto(encrypted, password, checkByte, entry.entryName);
+    }
+
+    let data: Buffer;
+    if (method === 0) {
+      data = compressed;
+    } else if (method === 8) {
+      data = inflateRawSync(compressed, { maxOutputLength: Math.max(header.size, 1) });
+    } else {
+      throw new Error(`Unsupported compression method for encrypted entry ${entry.entryName}: ${ZIP_METHOD_NAMES[method] || method}`);
+    }
+
+    // ZipCrypto的校验字节无法排除所有错误密码，CRC不符时无法区分密码错误和数据损坏
+    if (checkCrc && crc32(data) !== header.crc) {
+      throw new EncryptedDataError(`CRC mismatch for encrypted entry (wrong password or corrupted data): ${entry.entryName}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * 获取条目类型，符号链接由外部属性高16位中的Unix文件类型判断
+   */
+  private static getEntryType(entry: AdmZip.IZipEntry): ArchiveEntryType {
+    if (entry.isDirectory) {
+      return 'directory';
+    }
+    return ((entry.header.attr >>> 16) & 0o170000) === 0o120000 ? 'symlink' : 'file';
+  }
+
+  /**
+   * 获取条目的修改时间，优先使用扩展时间戳字段中的Unix时间，否则使用MS-DOS时间
+   */
+  private static getEntryMtime(entry: AdmZip.IZipEntry): Date {
+    const extra = entry.extra;
+    let offset = 0;
+    while (offset + 4 <= extra.length) {
+      const id = extra.readUInt16LE(offset);
+      const size = extra.readUInt16LE(offset + 2);
+      // 标志位第0位表示包含修改时间，修改时间紧跟在标志位之后
+      if (id === EXTENDED_TIMESTAMP_EXTRA_FIELD_ID && size >= 5 && offset + 4 + size <= extra.length &&
+          (extra.readUInt8(offset + 4) & 0x01) !== 0) {
+        return new Date(extra.readInt32LE(offset + 5) * 1000);
+      }
+      offset += 4 + size;
+    }
+    return entry.header.time;
+  }
+
+  /**
+   * 获取解压时恢复的元数据，只有Unix系统创建的归档记录了权限位；ZIP不记录所有者
+   */
+  private static getEntryMetadata(entry: AdmZip.IZipEntry): EntryMetadata {
+    const unixMode = entry.header.attr >>> 16;
+    return {
+      mode: unixMode !== 0 ? unixMode & 0o7777 : undefined,
+      mtime: ZipHandler.getEntryMtime(entry)
+    };
+  }
+
+  /**
+   * 获取复制条目所需的原始信息
+   * 写入的记录中直接保存实际大小，因此去掉ZIP64扩展字段；超过4 GiB的条目无法复制
+   */
+  private static toRawEntry(entry: AdmZip.IZipEntry): ZipRawEntry {
+    const header = entry.header;
+    if (header.size >= ZIP64_SIZE_LIMIT || header.compressedSize >= ZIP64_SIZE_LIMIT) {
+      throw new Error(`Entries larger than 4 GiB are not supported when modifying a zip archive: ${entry.entryName}`);
+    }
+
+    return {
+      versionMadeBy: header.made,
+      versionNeeded: header.version,
+      flags: header.flags,
+      method: header.method,
+      mtime: header.time,
+      crc: header.crc,
+      size: header.size,
+      externalAttributes: header.attr >>> 0,
+      extra: ZipHandler.removeExtraField(entry.extra, ZIP64_EXTRA_FIELD_ID)
+    };
+  }
+
+  /**
+   * 从扩展字段数据中移除指定标识的字段
+   */
+  private static removeExtraField(extra: Buffer, fieldId: number): Buffer {
+    const fields: Buffer[] = [];
+    let offset = 0;
+    while (offset + 4 <= extra.length) {
+      const size = extra.readUInt16LE(offset + 2);
+      if (extra.readUInt16LE(offset) !== fieldId) {
+        fields.push(extra.subarray(offset, offset + 4 + size));
+      }
+      offset += 4 + size;
+    }
+    return Buffer.concat(fields);
+  }
+
+  /**
+   * 将adm-zip条目转换为统一的归档条目信息
+   */
+  private toArchiveEntry(entry: AdmZip.IZipEntry): ArchiveEntry {
+    const header = entry.header;
+    // 外部属性的高16位保存Unix文件模式（由Unix系统创建的归档）
+    const unixMode = header.attr >>> 16;
+    const type = ZipHandler.getEntryType(entry);
+
+    // AES加密条目的实际压缩方式记录在扩展字段中
+    const encrypted = (header.flags & ZIP_FLAG_ENCRYPTED) !== 0;
+    const aesInfo = encrypted ? ZipCrypto.parseAesExtraField(entry.extra) : null;
+    const method = header.method === ZIP_METHOD_AES && aesInfo ? aesInfo.actualMethod : header.method;
+
+    const archiveEntry: ArchiveEntry = {
+      path: entry.entryName,
+      type,
+      size: header.size,
+      compressedSize: header.compressedSize,
+      mtime: ZipHandler.getEntryMtime(entry).toISOString(),
+      crc32: CompressionUtils.formatCrc32(header.crc),
+      compressionMethod: ZIP_METHOD_NAMES[method] || `method-${method}`
+    };
+
+    if (unixMode !== 0) {
+      archiveEntry.mode = unixMode & 0o7777;
+    }
+
+    if (encrypted) {
+      archiveEntry.encryption = aesInfo ? ZIP_AES_STRENGTH_NAMES[aesInfo.strength] || 'aes' : 'zipcrypto';
+    }
+
+    // 加密的符号链接需要密码才能读取链接目标
+    if (type === 'symlink' && !encrypted) {
+      archiveEntry.linkTarget = entry.getData().toString('utf8');
+    }
+
+    return archiveEntry;
+  }
+}
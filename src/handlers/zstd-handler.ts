@@ -0,0 +1,92 @@
+import { Duplex } from 'stream';
+import { CompressionOptions } from '../utils/compression-utils.js';
+import { ExternalCodec } from '../utils/external-codec.js';
+import { SingleFileHandler } from './single-file-handler.js';
+
+// 指定zstd可执行文件路径的环境变量
+export const ZSTD_BIN_ENV = 'ZSTD_BIN';
+
+// 调用系统中的zstd程序（Node.js 20的zlib不支持Zstandard）
+export const ZSTD_CODEC = new ExternalCodec('zstd', ZSTD_BIN_ENV, 'zstd');
+
+// 压缩级别范围，超过19的级别需要--ultra参数
+const ZSTD_MIN_LEVEL = 1;
+const ZSTD_MAX_LEVEL = 19;
+const ZSTD_MAX_ULTRA_LEVEL = 22;
+
+/**
+ * Zstandard格式处理器
+ * 处理.zst格式文件的压缩和解压，Zstandard格式不记录原始文件名和校验和
+ */
+export class ZstdHandler extends SingleFileHandler {
+  /**
+   * 获取支持的文件扩展名
+   */
+  getSupportedExtensions(): string[] {
+    return ['.zst'];
+  }
+
+  /**
+   * 获取格式名称
+   */
+  getFormatName(): string {
+    return 'zstd';
+  }
+
+  /**
+   * 生成zstd压缩参数
+   * @param sourceSize 输入数据大小，已知时写入帧头
+   */
+  static getCompressArgs(options: CompressionOptions, sourceSize?: number): string[] {
+    const level = options.zstdLevel ?? options.compressionLevel ?? 3;
+    if (!Number.isInteger(level) || level < ZSTD_MIN_LEVEL || level > ZSTD_MAX_ULTRA_LEVEL) {
+      throw new Error(`Zstandard level must be an integer between ${ZSTD_MIN_LEVEL} and ${ZSTD_MAX_ULTRA_LEVEL}`);
+    }
+
+    const threads = options.zstdThreads ?? 1;
+    if (!Number.isInteger(threads) || threads < 0) {
+      throw new Error('Zstandard threads must be a non-negative integer (0 uses all CPU cores)');
+    }
+
+    const args = ['-q', '-c', `-${level}`, `-T${threads}`];
+    if (level > ZSTD_MAX_LEVEL) {
+      args.push('--ultra');
+    }
+    if (options.zstdLong) {
+      // 默认窗口为128 MiB，解压时无需额外参数
+      args.push('--long');
+    }
+    if (sourceSize !== undefined) {
+      args.push(`--stream-size=${sourceSize}`);
+    }
+    return args;
+  }
+
+  /**
+   * 生成zstd解压参数
+   */
+  static getDecompressArgs(): string[] {
+    return ['-q', '-d', '-c'];
+  }
+
+  /**
+   * 创建压缩流
+   */
+  protected createCompressStream(options: CompressionOptions, sourceSize: number): Duplex {
+    return ZSTD_CODEC.createStream(ZstdHandler.getCompressArgs(options, sourceSize));
+  }
+
+  /**
+   * 创建解压流
+   */
+  protected createDecompressStream(): Duplex {
+    return ZSTD_CODEC.createStream(ZstdHandler.getDecompressArgs());
+  }
+
+  /**
+   * 获取压缩方式名称
+   */
+  protected getCompressionMethod(): string {
+    return 'zstd';
+  }
+}
@@ -1,22 +1,92 @@
+import path from 'path';
 import { FastMCP } from 'fastmcp';
 import { FormatRegistry } from './registry/format-registry.js';
 import { GzipHandler } from './handlers/gzip-handler.js';
+import { ZipHandler } from './handlers/zip-handler.js';
+import { TarGzHandler } from './handlers/tar-gz-handler.js';
+import { SevenZipHandler } from './handlers/7z-handler.js';
+import { BrotliHandler } from './handlers/brotli-handler.js';
+import { TarZstHandler } from './handlers/tar-zst-handler.js';
+import { ZstdHandler } from './handlers/zstd-handler.js';
+import { TarXzHandler } from './handlers/tar-xz-handler.js';
+import { LzmaHandler, XzHandler } from './handlers/xz-handler.js';
+import { TarBz2Handler } from './handlers/tar-bz2-handler.js';
+import { Bzip2Handler } from './handlers/bzip2-handler.js';
+import { ALLOWED_ROOTS_ENV, CompressionUtils } from './utils/compression-utils.js';
 
 // 服务器版本
 const SERVER_VERSION = '2.1.0';
 
+// 指定允许访问的根目录的命令行参数（可重复）
+const ALLOWED_ROOT_FLAG = '--allowed-root';
+
 // 创建格式注册表
 const registry = new FormatRegistry();
 
+/**
+ * 配置允许工具访问的根目录
+ * 来源为命令行参数 --allowed-root <dir>（可重复）和 COMPRESS_MCP_ALLOWED_ROOTS 环境变量，
+ * 均未配置时不限制访问路径
+ */
+function configureAllowedRoots() {
+  const roots: string[] = [];
+
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === ALLOWED_ROOT_FLAG && args[i + 1]) {
+      roots.push(args[++i]);
+    } else if (args[i].startsWith(`${ALLOWED_ROOT_FLAG}=`)) {
+      roots.push(args[i].slice(ALLOWED_ROOT_FLAG.length + 1));
+    }
+  }
+
+  const envRoots = process.env[ALLOWED_ROOTS_ENV];
+  if (envRoots) {
+    roots.push(...envRoots.split(path.delimiter).filter(root => root.trim().length > 0));
+  }
+
+  CompressionUtils.setAllowedRoots(roots);
+
+  if (roots.length > 0) {
+    console.log(`Restricting file access to: ${CompressionUtils.getAllowedRoots().join(', ')}`);
+  } else {
+    console.log('No allowed root directories configured, file access is unrestricted');
+  }
+}
+
 /**
  * 注册所有格式处理器
  */
 function registerHandlers() {
+  // 注册TAR.GZ处理器（需先于gzip注册，使按文件路径查找时.tar.gz文件优先匹配复合扩展名）
+  registry.register('tar.gz', new TarGzHandler());
+
   // 注册GZIP处理器
   registry.register('gzip', new GzipHandler());
-  
-  // 这里添加其他格式处理器，如TarGzHandler, ZipHandler, SevenZipHandler等
-  
+
+  // 注册Brotli处理器
+  registry.register('brotli', new BrotliHandler());
+
+  // 注册TAR.ZST和Zstandard处理器（zstd可执行文件路径可通过ZSTD_BIN环境变量配置）
+  // 与tar.gz相同，各tar变体需先于对应的单文件格式注册
+  registry.register('tar.zst', new TarZstHandler());
+  registry.register('zstd', new ZstdHandler());
+
+  // 注册TAR.XZ、XZ和LZMA处理器（xz可执行文件路径可通过XZ_BIN环境变量配置）
+  registry.register('tar.xz', new TarXzHandler());
+  registry.register('xz', new XzHandler());
+  registry.register('lzma', new LzmaHandler());
+
+  // 注册TAR.BZ2和BZIP2处理器（bzip2可执行文件路径可通过BZIP2_BIN环境变量配置）
+  registry.register('tar.bz2', new TarBz2Handler());
+  registry.register('bzip2', new Bzip2Handler());
+
+  // 注册ZIP处理器
+  registry.register('zip', new ZipHandler());
+
+  // 注册7Z处理器（7z可执行文件路径可通过SEVEN_ZIP_BIN环境变量配置）
+  registry.register('7z', new SevenZipHandler());
+
   console.log(`Registered ${registry.getHandlerCount()} compression format handlers`);
 }
 
@@ -38,6 +108,9 @@ function addToolSafely(server: any, tool: any, toolName: string) {
 // 启动主程序
 async function main() {
   try {
+    // 配置允许访问的根目录
+    configureAllowedRoots();
+
     // 注册所有格式处理器
     registerHandlers();
 
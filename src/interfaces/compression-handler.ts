@@ -3,13 +3,82 @@ import {
   CompressionOptions, 
   DecompressionOptions, 
   ListOptions, 
-  MCPResult 
+  MCPResult,
+  ModifyOptions,
+  ReadEntryOptions,
+  TestOptions
 } from '../utils/compression-utils.js';
 
+/**
+ * 归档条目类型
+ */
+export type ArchiveEntryType = 'file' | 'directory' | 'symlink' | 'hardlink' | 'other';
+
+/**
+ * 归档条目信息
+ */
+export interface ArchiveEntry {
+  path: string;
+  type: ArchiveEntryType;
+  size: number;
+  compressedSize?: number;
+  mtime?: string;
+  mode?: number;
+  crc32?: string;
+  compressionMethod?: string;
+  encryption?: string;
+  linkTarget?: string;
+}
+
+/**
+ * 归档条目列表（分页）
+ */
+export interface ArchiveListing {
+  entries: ArchiveEntry[];
+  totalEntries: number;
+  matchedEntries: number;
+  offset: number;
+  limit: number;
+  hasMore: boolean;
+}
+
+/**
+ * 条目完整性测试状态：skipped表示无法校验（如缺少密码的加密条目）
+ */
+export type EntryTestStatus = 'passed' | 'failed' | 'skipped';
+
+/**
+ * 单个条目的完整性测试结果
+ */
+export interface EntryTestResult {
+  path: string;
+  type: ArchiveEntryType;
+  size: number;
+  crc32?: string;
+  checksum?: string;  // 按TestOptions.checksum算法计算的校验值
+  status: EntryTestStatus;
+  error?: string;
+}
+
+/**
+ * 归档完整性测试报告
+ */
+export interface ArchiveTestReport {
+  passed: boolean;
+  entries: EntryTestResult[];
+  totalEntries: number;
+  passedEntries: number;
+  failedEntries: number;
+  skippedEntries: number;
+  archiveErrors: string[];  // 无法归属到具体条目的错误，如压缩层校验和或归档结构错误
+}
+
 /**
  * 压缩处理器返回结果
  */
-export interface OperationResult extends MCPResult {}
+export interface OperationResult extends MCPResult {
+  content?: MCPResult['content'] & Partial<ArchiveListing>;
+}
 
 /**
  * 压缩处理器接口
@@ -71,4 +140,42 @@ export interface CompressionHandler {
     options: ListOptions,
     progressCallback?: ProgressCallback
   ): Promise<OperationResult>;
+
+  /**
+   * 读取单个条目的内容，不写入磁盘（可选，未实现的格式不支持read-entry操作）
+   * @param sourcePath 压缩文件路径
+   * @param options 读取选项
+   * @param progressCallback 进度回调函数
+   */
+  readEntry?(
+    sourcePath: string,
+    options: ReadEntryOptions,
+    progressCallback?: ProgressCallback
+  ): Promise<OperationResult>;
+
+  /**
+   * 修改已有归档：添加、更新或删除条目（可选，未实现的格式不支持add/update/delete操作）
+   * 新归档先写入临时文件，完成后再替换原文件
+   * @param sourcePath 压缩文件路径
+   * @param options 修改选项
+   * @param progressCallback 进度回调函数
+   */
+  modify?(
+    sourcePath: string,
+    options: ModifyOptions,
+    progressCallback?: ProgressCallback
+  ): Promise<OperationResult>;
+
+  /**
+   * 测试归档完整性：流式读取每个条目并校验CRC32等校验和，不写入磁盘
+   * 归档损坏时仍返回成功结果，由报告中的passed和各条目状态说明问题
+   * @param sourcePath 压缩文件路径
+   * @param options 测试选项
+   * @param progressCallback 进度回调函数
+   */
+  test(
+    sourcePath: string,
+    options: TestOptions,
+    progressCallback?: ProgressCallback
+  ): Promise<OperationResult>;
 } 
\ No newline at end of file
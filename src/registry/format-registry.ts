@@ -1,4 +1,14 @@
 import { CompressionHandler } from '../interfaces/compression-handler.js';
+import { FormatDetector } from '../utils/format-detector.js';
+
+/**
+ * 按文件内容检测到的格式
+ */
+export interface FormatDetection {
+  format: string;
+  heuristic: boolean;
+  handler?: CompressionHandler;  // 检测到的格式未注册处理器时为空（如未压缩的tar）
+}
 
 /**
  * 格式注册表 - 管理所有压缩格式处理器
@@ -34,21 +44,30 @@ export class FormatRegistry {
   
   /**
    * 通过文件扩展名获取处理器
+   * 参数也可以是文件名或复合扩展名（如.tar.xz），此时取最长的已注册扩展名匹配，
+   * 因此.tar.xz优先于.xz
    * @param extension 文件扩展名
    * @returns 对应的处理器实例，找不到则返回undefined
    */
   getHandlerByExtension(extension: string): CompressionHandler | undefined {
     const ext = extension.toLowerCase();
-    // 首先检查复合扩展名
-    if (ext.endsWith('.tar.gz') && this.extensionMap.has('.tar.gz')) {
-      return this.extensionMap.get('.tar.gz');
+    const exactMatch = this.extensionMap.get(ext);
+    if (exactMatch) {
+      return exactMatch;
     }
-    
-    return this.extensionMap.get(ext);
+
+    let longestMatch: string | undefined;
+    for (const registeredExt of this.extensionMap.keys()) {
+      if (ext.endsWith(registeredExt) && (!longestMatch || registeredExt.length > longestMatch.length)) {
+        longestMatch = registeredExt;
+      }
+    }
+    return longestMatch ? this.extensionMap.get(longestMatch) : undefined;
   }
   
   /**
    * 通过文件路径获取合适的处理器
+   * 只根据扩展名判断，需要按内容识别时使用detectFormat
    * @param filePath 文件路径
    * @returns 对应的处理器实例，找不到则返回undefined
    */
@@ -61,6 +80,31 @@ export class FormatRegistry {
     return undefined;
   }
   
+  /**
+   * 通过文件内容（魔数）检测格式
+   * 外层为gzip、xz等压缩格式时会解压开头部分，判断是否为对应的tar变体
+   * @param filePath 文件路径
+   * @returns 检测结果，无法识别时返回undefined
+   */
+  async detectFormat(filePath: string): Promise<FormatDetection | undefined> {
+    const detected = FormatDetector.detect(await FormatDetector.readFileHeader(filePath));
+    if (!detected) {
+      return undefined;
+    }
+
+    let format = detected.format;
+    const tarFormat = FormatDetector.getTarVariant(format);
+    const compressionHandler = this.handlers.get(format);
+    if (tarFormat && this.handlers.has(tarFormat) && compressionHandler?.readEntry) {
+      const prefix = await compressionHandler.readEntry(filePath, { byteLength: 512, encoding: 'base64' });
+      if (!prefix.isError && FormatDetector.isTarHeader(Buffer.from(prefix.content!.content, 'base64'))) {
+        format = tarFormat;
+      }
+    }
+
+    return { format, heuristic: detected.heuristic, handler: this.handlers.get(format) };
+  }
+  
   /**
    * 获取所有已注册的格式
    * @returns 格式名称数组
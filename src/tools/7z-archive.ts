@@ -1,7 +1,12 @@
 import { promises as fs } from 'fs';
-import * as Seven from 'node-7z';
-import { join, dirname, basename, resolve, isAbsolute, normalize } from 'path';
+import { join, dirname, basename, normalize } from 'path';
 import { z } from 'zod';
+import { SevenZipHandler } from '../handlers/7z-handler.js';
+import { CompressionUtils, CONFLICT_POLICIES } from '../utils/compression-utils.js';
+import { ConflictRecord, ConflictResolver } from '../utils/conflict-resolver.js';
+
+// Shared 7z handler used by the 7z compression tool
+const sevenZipHandler = new SevenZipHandler();
 
 // 7z compression tool parameter definition
 const sevenZipParameters = z.object({
@@ -33,23 +38,29 @@ const sevenZipParameters = z.object({
     }, "Filename cannot contain path separators")
     .describe("Output filename (defaults to original file or folder name + .7z)"),
   compressionLevel: z.number().int().min(1).max(9).default(6)
-    .describe("Compression level (1-9), higher values provide better compression but slower speed")
+    .describe("Compression level (1-9), higher values provide better compression but slower speed"),
+  onConflict: z.enum(CONFLICT_POLICIES).default('error')
+    .describe("What to do if the output file already exists: error, overwrite, skip, rename or keep-newer"),
+  include: z.array(z.string().min(1)).optional()
+    .describe("When compressing a folder, only pack files matching these glob patterns (relative to the folder), e.g. [\"src/**\", \"package.json\"]"),
+  exclude: z.array(z.string().min(1)).optional()
+    .describe("When compressing a folder, skip files and folders matching these glob patterns, e.g. [\"node_modules\", \".git\", \"dist\"]"),
+  ignoreFiles: z.array(z.string().min(1)).optional()
+    .describe("When compressing a folder, ignore files to honor in every folder, using .gitignore syntax, e.g. [\".gitignore\", \".npmignore\"]")
 });
 
 // Export 7z compression tool
 export function create7zArchiveTool() {
   return {
     name: "7z-archive",
-    description: "Use 7z format to compress files or folders. Specify output directory, filename, and compression level. Supports progress reporting. Requires 7-Zip to be installed on the system.",
+    description: "Use 7z format to compress files or folders. Specify output directory, filename, and compression level. Use include/exclude globs or ignore files such as .gitignore to leave out files like node_modules. Supports progress reporting. Requires 7-Zip to be installed on the system (on PATH, or set SEVEN_ZIP_BIN to the 7z executable).",
     parameters: sevenZipParameters,
     execute: async (args: z.infer<typeof sevenZipParameters>, { reportProgress }: { reportProgress: (progress: { progress: number, total: number, message?: string }) => void }) => {
-      const { sourcePath, outputDirectory, outputFileName, compressionLevel } = args;
+      const { sourcePath, outputDirectory, outputFileName, compressionLevel, onConflict, include, exclude, ignoreFiles } = args;
 
       try {
         // Path normalization
-        const absoluteSourcePath = isAbsolute(sourcePath) 
-          ? sourcePath 
-          : resolve(process.cwd(), sourcePath);
+        const absoluteSourcePath = await CompressionUtils.resolveSafePath(sourcePath);
 
         // Check if source path exists
         let stats;
@@ -64,9 +75,7 @@ export function create7zArchiveTool() {
 
         // Process output directory
         const sourceDir = dirname(absoluteSourcePath);
-        const targetDir = outputDirectory 
-          ? (isAbsolute(outputDirectory) ? outputDirectory : resolve(process.cwd(), outputDirectory))
-          : sourceDir;
+        const targetDir = await CompressionUtils.resolveSafePath(outputDirectory || sourceDir);
         
         // Ensure output directory exists
         try {
@@ -83,25 +92,6 @@ export function create7zArchiveTool() {
         const targetName = outputFileName || `${sourceBase}.7z`;
         const targetPath = join(targetDir, targetName);
 
-        // Ensure we don't overwrite existing files (unless filename is explicitly specified)
-        if (!outputFileName) {
-          try {
-            await fs.access(targetPath);
-            // File already exists, suggest automatic renaming
-            const timestamp = new Date().getTime();
-            const newTargetName = `${sourceBase}_${timestamp}.7z`;
-            return {
-              isError: true,
-              content: [{ 
-                type: "text", 
-                text: `Warning: Output file ${targetPath} already exists. Please use a different filename, for example: ${newTargetName}` 
-              }]
-            };
-          } catch {
-            // File doesn't exist, proceed
-          }
-        }
-
         // Report starting compression
         reportProgress({
           progress: 0,
@@ -109,44 +99,40 @@ export function create7zArchiveTool() {
           message: `Starting 7z compression of ${absoluteSourcePath}...`
         });
 
-        // Set compression options
-        const compressionOptions: any = {
-          $bin: '7z',  // Ensure 7z command is available
-          $progress: true,  // Enable progress reporting
-          $defer: false  // Synchronous execution
-        };
-        
-        // Add compression level if specified
-        if (compressionLevel) {
-          compressionOptions.mx = compressionLevel;
+        // Delegate to the 7z handler, which resolves the configured 7z binary
+        const result = await sevenZipHandler.compress(
+          absoluteSourcePath,
+          targetPath,
+          { compressionLevel, onConflict, include, exclude, ignoreFiles },
+          CompressionUtils.toToolProgress(reportProgress)
+        );
+
+        if (result.isError) {
+          return {
+            isError: true,
+            content: [{ type: "text", text: `7z compression failed: ${result.error?.message}` }]
+          };
         }
 
-        // Create 7z compression process
-        const stream = Seven.add(targetPath, absoluteSourcePath, compressionOptions);
-        
-        // Listen for progress events
-        stream.on('progress', (progress: { percent?: number }) => {
-          if (progress && progress.percent !== undefined) {
-            reportProgress({
-              progress: progress.percent,
-              total: 100,
-              message: `7z compression progress: ${progress.percent}%`
-            });
-          }
-        });
-        
-        // Wait for compression to complete
-        await new Promise<void>((resolve, reject) => {
-          stream.on('end', function() {
-            resolve();
-          });
-          stream.on('error', function(err: Error) {
-            reject(err);
-          });
-        });
-        
-        // Get compressed file size
-        const compressedStats = await fs.stat(targetPath);
+        // The handler resolves an existing output file according to onConflict
+        if (result.content!.skipped) {
+          return {
+            content: [{ type: "text", text: `Skipped: output file ${targetPath} already exists (onConflict: ${onConflict})` }]
+          };
+        }
+
+        const { compressedSize, excludedFiles, excludedSize, unmatchedPatterns, conflicts } = result.content!;
+
+        // Files left out by include/exclude patterns and ignore files
+        const excludedText = excludedFiles > 0
+          ? `Excluded: ${excludedFiles} files (${excludedSize} bytes)\n`
+          : '';
+
+        // Patterns that did not select or exclude any file
+        const unmatched = [...unmatchedPatterns.include, ...unmatchedPatterns.exclude];
+        const unmatchedText = unmatched.length > 0
+          ? `Patterns that matched no files: ${unmatched.join(', ')}\n`
+          : '';
         
         // Report completion
         reportProgress({
@@ -161,10 +147,10 @@ export function create7zArchiveTool() {
               type: "text", 
               text: `7z compression successful:
 Source: ${absoluteSourcePath}
-Compressed file: ${targetPath}
-Compressed size: ${compressedStats.size} bytes
+Compressed file: ${result.content!.targetPath}
+Compressed size: ${compressedSize} bytes
 Compression level: ${compressionLevel}
-` 
+${excludedText}${unmatchedText}${conflicts.map((conflict: ConflictRecord) => `${ConflictResolver.describe(conflict)}\n`).join('')}` 
             }
           ]
         };
@@ -4,7 +4,8 @@ import { createReadStream } from 'fs';
 import { Writable } from 'stream';
 import { pipeline } from 'stream/promises';
 import { z } from 'zod';
-import { isAbsolute, resolve, normalize } from 'path';
+import { normalize } from 'path';
+import { CompressionUtils } from '../utils/compression-utils.js';
 
 // View compressed file content tool parameter definition
 const listZipContentsParameters = z.object({
@@ -66,9 +67,7 @@ export function createZipContentsTool() {
 
       try {
         // Path security check
-        const absoluteSourcePath = isAbsolute(sourceFilePath) 
-          ? sourceFilePath 
-          : resolve(process.cwd(), sourceFilePath);
+        const absoluteSourcePath = await CompressionUtils.resolveSafePath(sourceFilePath);
         
         // Check if source file exists
         let fileStats;
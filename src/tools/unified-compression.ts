@@ -1,22 +1,98 @@
+import fs from 'fs';
 import path from 'path';
 import { z } from 'zod';
-import { CompressionUtils } from '../utils/compression-utils.js';
-import { FormatRegistry } from '../registry/format-registry.js';
+import { CompressionUtils, ConflictPolicy, CONFLICT_POLICIES, SYMLINK_POLICIES } from '../utils/compression-utils.js';
+import { FormatDetector } from '../utils/format-detector.js';
+import { FormatDetection, FormatRegistry } from '../registry/format-registry.js';
+import { ArchiveDiffer } from '../utils/archive-differ.js';
+import { ChecksumAlgorithm, ChecksumManifest, ManifestVerification } from '../utils/checksum-manifest.js';
+import { CompressionHandler, EntryTestResult, OperationResult } from '../interfaces/compression-handler.js';
+import { ConflictResolver, OutputConflictError } from '../utils/conflict-resolver.js';
+
+// 按文件内容自动检测格式的format取值
+const AUTO_FORMAT = 'auto';
+
+// 压缩结果中最多内嵌的清单条目数量，超出时只写入清单文件
+const MAX_EMBEDDED_MANIFEST_ENTRIES = 1000;
 
 // 操作类型枚举
-const OperationType = z.enum(['compress', 'decompress', 'list']);
+const OperationType = z.enum(['compress', 'decompress', 'list', 'read-entry', 'test', 'add', 'update', 'delete', 'diff', 'verify']);
 type OperationType = z.infer<typeof OperationType>;
 
 // 统一的参数模式
 const unifiedCompressionParameters = z.object({
-  operation: z.enum(['compress', 'decompress', 'list']),
-  format: z.string().min(1, 'Format cannot be empty'),
+  operation: z.enum(['compress', 'decompress', 'list', 'read-entry', 'test', 'add', 'update', 'delete', 'diff', 'verify']),
+  format: z.string().min(1, 'Format cannot be empty')
+    .describe('Archive format, or "auto" to detect it from the file contents (for compress, from the outputFileName extension)'),
   sourcePath: z.string().min(1, 'Source path cannot be empty'),
   outputDirectory: z.string().optional(),
   outputFileName: z.string().optional(),
-  compressionLevel: z.number().min(1).max(9).default(6).optional(),
+  compressionLevel: z.number().int().min(0).max(22).optional()
+    .describe('Compression level; the valid range and the default depend on the format (gzip, tar.gz, zip, xz and 7z: 0-9, default 6; bzip2: 1-9, default 9; brotli: 0-11, default 6; zstd: 1-22, default 3)'),
   stripComponents: z.number().min(0).default(0).optional(),
   previewLength: z.number().min(1).max(10000).default(1000).optional(),
+  patterns: z.array(z.string().min(1)).optional()
+    .describe('Glob patterns to filter listed entries, or entries to remove with delete, e.g. ["src/**/*.ts", "*.md"]'),
+  offset: z.number().int().min(0).default(0).optional(),
+  limit: z.number().int().min(1).max(10000).default(1000).optional(),
+  include: z.array(z.string().min(1)).optional()
+    .describe('Only extract entries (decompress) or pack files of a source directory (compress) matching these glob patterns, e.g. ["config/app.yaml", "docs/**"]'),
+  exclude: z.array(z.string().min(1)).optional()
+    .describe('Skip entries matching these glob patterns during extraction, or files and directories of a source directory during compression, e.g. ["node_modules", "*.log"]'),
+  ignoreFiles: z.array(z.string().min(1)).optional()
+    .describe('Ignore files read from every directory of a compressed source directory, using .gitignore syntax, e.g. [".gitignore", ".npmignore"]'),
+  maxTotalSize: z.number().int().positive().optional()
+    .describe('Maximum total decompressed size in bytes (default 10 GiB)'),
+  maxExpansionRatio: z.number().positive().optional()
+    .describe('Maximum ratio of decompressed size to archive size (default 1000)'),
+  maxEntries: z.number().int().positive().optional()
+    .describe('Maximum number of archive entries (default 100000)'),
+  maxDepth: z.number().int().positive().optional()
+    .describe('Maximum directory nesting depth of entry paths (default 64)'),
+  entryPath: z.string().min(1).optional()
+    .describe('Path of the entry to read inside the archive (read-entry; optional for gzip), or the archive directory that receives new entries (add, update)'),
+  inputPath: z.string().min(1).optional()
+    .describe('File or directory to put into an existing archive (add, update); for a directory its contents are added'),
+  checksum: z.enum(['sha256', 'sha512', 'blake2b512']).optional()
+    .describe('Write a checksum manifest next to the archive (e.g. archive.zip.sha256) covering the archive file and each entry (compress)'),
+  manifestPath: z.string().min(1).optional()
+    .describe('Checksum manifest to check (verify); defaults to the manifest next to the sourcePath archive'),
+  comparePath: z.string().min(1).optional()
+    .describe('Archive or directory to compare sourcePath with (diff); its format is detected from the file contents'),
+  encoding: z.enum(['auto', 'utf8', 'utf16le', 'utf16be', 'latin1', 'base64']).default('auto').optional()
+    .describe('Encoding of the returned content; auto detects text encodings and returns base64 for binary data'),
+  byteOffset: z.number().int().min(0).optional()
+    .describe('Start reading at this byte offset of the entry (read-entry)'),
+  byteLength: z.number().int().min(1).optional()
+    .describe('Number of bytes to read (read-entry)'),
+  startLine: z.number().int().min(1).optional()
+    .describe('First line to read, 1-based (read-entry; cannot be combined with byteOffset/byteLength)'),
+  endLine: z.number().int().min(1).optional()
+    .describe('Last line to read, inclusive (read-entry)'),
+  maxBytes: z.number().int().min(1).max(10 * 1024 * 1024).optional()
+    .describe('Maximum number of bytes returned by read-entry (default 1 MiB); longer content is truncated'),
+  onConflict: z.enum(CONFLICT_POLICIES).default('error').optional()
+    .describe('What to do when the output file (compress) or an extracted file (decompress) already exists: error (default), overwrite, skip, rename ("name (1).ext") or keep-newer (overwrite only if the new content is newer)'),
+  symlinks: z.enum(SYMLINK_POLICIES).default('preserve').optional()
+    .describe('How symlinks inside a source directory are stored (compress, add, update; tar and zip formats): preserve as link entries (default), follow and store the target contents, or skip'),
+  preserveOwnership: z.boolean().optional()
+    .describe('Restore the uid/gid recorded in tar entries when extracting (decompress). Defaults to true only when running as root; entries whose owner cannot be set are reported in ownershipErrors'),
+  password: z.string().min(1).optional()
+    .describe('Password for creating or reading encrypted zip archives. Never included in results.'),
+  encryptionMethod: z.enum(['aes256', 'zipcrypto']).default('aes256').optional()
+    .describe('Encryption used when compressing with a password: aes256 (recommended) or legacy zipcrypto'),
+  brotliQuality: z.number().int().min(0).max(11).optional()
+    .describe('Brotli quality 0-11 (overrides compressionLevel for the brotli format)'),
+  brotliLgwin: z.number().int().min(10).max(24).optional()
+    .describe('Brotli window size as log2 of bytes, 10-24 (default 22)'),
+  brotliMode: z.enum(['generic', 'text', 'font']).optional()
+    .describe('Brotli content hint: text for UTF-8 text, font for WOFF 2.0 fonts, generic otherwise'),
+  zstdLevel: z.number().int().min(1).max(22).optional()
+    .describe('Zstandard level 1-22 for zstd and tar.zst (overrides compressionLevel); levels above 19 use much more memory'),
+  zstdLong: z.boolean().optional()
+    .describe('Enable Zstandard long-distance matching (128 MiB window) for large inputs with distant repetitions'),
+  zstdThreads: z.number().int().min(0).max(256).optional()
+    .describe('Number of Zstandard compression threads, 0 uses one thread per CPU core (default 1)'),
 });
 
 /**
@@ -26,40 +102,114 @@ const unifiedCompressionParameters = z.object({
 export function createUnifiedCompressionTool(registry: FormatRegistry) {
   return {
     name: 'compression',
-    description: `Unified compression tool that supports multiple operations (compress, decompress, list) and formats.
+    description: `Unified compression tool that supports multiple operations (compress, decompress, list, read-entry, test, add, update, delete, diff, verify) and formats.
 This tool consolidates all compression functionality into a single interface.
 
-Formats supported: ${registry.getAllFormats().join(', ')}
+Formats supported: ${registry.getAllFormats().join(', ')}, or auto to detect the format from the file contents (magic bytes).
+When the file extension and the detected content disagree, the result includes a formatWarning.
 
 Operations:
-- compress: Compress a file or directory
-- decompress: Extract a compressed file
-- list: Show contents of a compressed file
+- compress: Compress a file or directory. The brotli format accepts brotliQuality (0-11), brotliLgwin and brotliMode;
+  zstd and tar.zst accept zstdLevel (1-22), zstdLong (long-distance matching) and zstdThreads.
+  Set checksum (sha256, sha512 or blake2b512) to write a manifest sidecar with the archive and entry checksums; it is also returned as manifest.
+  For tar and zip, symlinks chooses whether symlinks are preserved (default), followed or skipped; tar also stores repeated hard links as link entries.
+  Symlink loops, broken links when following, FIFOs, sockets and devices are skipped and reported in skippedEntries.
+  For a directory, include/exclude globs (relative to the directory) and ignoreFiles such as .gitignore select what is packed;
+  the result reports excludedFiles and excludedSize (bytes).
+- decompress: Extract a compressed file. Use include/exclude globs to extract only selected entries; patterns that matched nothing are reported in unmatchedPatterns.
+  Symlink and hard link entries are restored only when they point inside the output directory; other links are reported in skippedEntries. Extraction aborts without touching the output directory when maxTotalSize, maxExpansionRatio, maxEntries or maxDepth is exceeded.
+  Permissions (including executable bits) and modification times are restored for files and directories; set preserveOwnership to control whether tar uid/gid are restored.
+- list: Show contents of a compressed file as structured entries (path, type, size, compressedSize, mtime, mode, crc32, compressionMethod).
+  Supports glob filtering (patterns) and pagination (offset, limit); the result reports totalEntries, matchedEntries and hasMore.
+  Single-file formats without the original size in their header (brotli, zstd, xz, bzip2) are fully decompressed without writing to disk, subject to maxTotalSize and maxExpansionRatio.
+- read-entry: Return the contents of a single entry (entryPath) without writing to disk (all formats except 7z).
+  Text is decoded with the detected encoding, binary data is returned as base64. Use byteOffset/byteLength or startLine/endLine to read part of the entry.
+- add / update / delete: Modify an existing zip or tar archive (sourcePath) in place. add puts inputPath under entryPath and leaves existing entries alone,
+  update also replaces entries that are older than the input files, delete removes entries matching patterns. The result lists added, updated, deleted and skipped entries.
+- diff: Compare sourcePath with comparePath (another archive of any supported format, or a directory such as an extracted copy).
+  Entries are compared by type, size, CRC32 and mode; the result lists added (only in comparePath), removed and modified entries.
+- verify: Check a checksum manifest (manifestPath) against an archive or an extracted directory (sourcePath).
+  For an archive the file checksum is compared and every entry is streamed (read with format, or auto) and compared with its entry checksum;
+  for a directory every entry checksum is compared without following symlinks. Files missing from the manifest are listed in extraFiles.
+- test: Verify archive integrity without extracting. Every entry is streamed and checked against its CRC32/checksum and the format's trailer;
+  the result reports passed, a per-entry status (passed, failed, skipped) and archiveErrors that cannot be attributed to a single entry.
+
+Existing output files are handled by onConflict (error, overwrite, skip, rename or keep-newer) for both compress and decompress;
+files that were overwritten, skipped or renamed are reported in conflicts.
+Output is written to a temporary file or directory next to the target and moved into place only on success, so a failed or interrupted operation leaves the target unchanged.
+
+Zip archives can be encrypted with a password (AES-256 by default, or legacy ZipCrypto); the same password is used to decompress, read or test encrypted entries, and a wrong password is reported separately from corrupted data.
 
 Each operation has specific parameters. See examples below.`,
     parameters: unifiedCompressionParameters,
     async execute(params: z.infer<typeof unifiedCompressionParameters>) {
       try {
-        const { operation, format, sourcePath } = params;
+        const { operation } = params;
+        let format = params.format.toLowerCase();
+
+        // 将源路径限制在允许访问的根目录内
+        const sourcePath = await CompressionUtils.resolveSafePath(params.sourcePath);
+        
+        // 检查源路径是否存在
+        if (!await CompressionUtils.fileExists(sourcePath)) {
+          return CompressionUtils.createErrorResult(`Source path does not exist: ${sourcePath}`);
+        }
+        
+        // 校验清单与格式无关，sourcePath也可以是目录
+        if (operation === 'verify') {
+          return await verifyManifest(registry, sourcePath, params);
+        }
+        
+        // 读取已有归档时按文件内容检测格式，用于auto格式和扩展名不一致的提示
+        const detection = operation !== 'compress' && await CompressionUtils.isFile(sourcePath)
+          ? await registry.detectFormat(sourcePath)
+          : undefined;
+        
+        if (format === AUTO_FORMAT) {
+          const detectedFormat = resolveAutoFormat(registry, operation, detection, params.outputFileName);
+          if (typeof detectedFormat !== 'string') {
+            return detectedFormat;
+          }
+          format = detectedFormat;
+        }
         
         // 获取适当的处理器
         const handler = registry.getHandlerByFormat(format);
         if (!handler) {
           return CompressionUtils.createErrorResult(
             `Unsupported format: ${format}`,
-            `Supported formats are: ${registry.getAllFormats().join(', ')}`
+            `Supported formats are: ${registry.getAllFormats().join(', ')}, ${AUTO_FORMAT}`
           );
         }
         
-        // 检查源路径是否存在
-        if (!await CompressionUtils.fileExists(sourcePath)) {
-          return CompressionUtils.createErrorResult(`Source path does not exist: ${sourcePath}`);
+        // 内容与扩展名或指定的格式不一致时给出提示
+        const formatInfo = {
+          detectedFormat: params.format.toLowerCase() === AUTO_FORMAT ? format : undefined,
+          formatWarning: getFormatWarning(registry, sourcePath, handler.getFormatName(), detection)
+        };
+        
+        // 扩展名或文件内容与格式一致即视为有效
+        const isFormatValid = handler.isFormatValid(sourcePath) ||
+          (detection !== undefined && FormatDetector.isCompatible(detection.format, handler.getFormatName()));
+        
+        // 目前只有ZIP格式支持密码
+        if (params.password && handler.getFormatName() !== 'zip') {
+          return CompressionUtils.createErrorResult(
+            `Password protection is not supported for format: ${format}`,
+            'Use the zip format to create or read encrypted archives'
+          );
         }
         
         // 根据操作类型分发到适当的处理器方法
         switch (operation) {
           case 'compress': {
-            const { outputDirectory, outputFileName, compressionLevel } = params;
+            const {
+              outputFileName, compressionLevel, password, encryptionMethod, onConflict, symlinks,
+              include, exclude, ignoreFiles, brotliQuality, brotliLgwin, brotliMode, zstdLevel, zstdLong, zstdThreads, checksum
+            } = params;
+            const outputDirectory = params.outputDirectory
+              ? await CompressionUtils.resolveSafePath(params.outputDirectory)
+              : undefined;
             
             // 检查是否是目录或文件
             const isDirectory = await CompressionUtils.isDirectory(sourcePath);
@@ -83,24 +233,41 @@ Each operation has specific parameters. See examples below.`,
               defaultExt
             );
             
-            // 检查输出文件是否已存在
-            if (await CompressionUtils.fileExists(targetPath)) {
-              return CompressionUtils.createErrorResult(
-                `Output file already exists: ${targetPath}`,
-                'Please specify a different output file name or directory'
-              );
-            }
-            
             // 执行压缩
-            return handler.compress(
+            const result = await handler.compress(
               sourcePath, 
               targetPath, 
-              { compressionLevel: compressionLevel || 6 }
+              {
+                compressionLevel,
+                password,
+                encryptionMethod,
+                onConflict,
+                symlinks,
+                include,
+                exclude,
+                ignoreFiles,
+                brotliQuality,
+                brotliLgwin,
+                brotliMode,
+                zstdLevel,
+                zstdLong,
+                zstdThreads,
+                checksum
+              }
             );
+            
+            // 按需生成校验清单，条目的校验值由处理器在写入归档时计算；rename策略下归档写入了新的文件名
+            if (checksum && !result.isError && !result.content!.skipped) {
+              return await attachManifest(result, result.content!.targetPath, checksum, onConflict);
+            }
+            return result;
           }
           
           case 'decompress': {
-            const { outputDirectory, stripComponents } = params;
+            const {
+              stripComponents, include, exclude, maxTotalSize, maxExpansionRatio, maxEntries, maxDepth, password, onConflict,
+              preserveOwnership
+            } = params;
             
             // 检查源路径是否为文件
             if (!await CompressionUtils.isFile(sourcePath)) {
@@ -110,29 +277,40 @@ Each operation has specific parameters. See examples below.`,
             }
             
             // 检查格式是否有效
-            if (!handler.isFormatValid(sourcePath)) {
-              return CompressionUtils.createErrorResult(
+            if (!isFormatValid) {
+              return withFormatInfo(CompressionUtils.createErrorResult(
                 `File is not a valid ${format} file: ${sourcePath}`,
                 `Expected file extensions: ${handler.getSupportedExtensions().join(', ')}`
-              );
+              ), formatInfo);
             }
             
             // 解析输出目录
-            const targetDir = outputDirectory || path.dirname(sourcePath);
+            const targetDir = await CompressionUtils.resolveSafePath(params.outputDirectory || path.dirname(sourcePath));
             
             // 确保输出目录存在
             await CompressionUtils.ensureDir(targetDir);
             
             // 执行解压
-            return handler.decompress(
+            return withFormatInfo(await handler.decompress(
               sourcePath, 
               targetDir, 
-              { stripComponents: stripComponents || 0 }
-            );
+              {
+                stripComponents: stripComponents || 0,
+                include,
+                exclude,
+                maxTotalSize,
+                maxExpansionRatio,
+                maxEntries,
+                maxDepth,
+                password,
+                onConflict,
+                preserveOwnership
+              }
+            ), formatInfo);
           }
           
           case 'list': {
-            const { previewLength } = params;
+            const { previewLength, patterns, offset, limit, maxTotalSize, maxExpansionRatio } = params;
             
             // 检查源路径是否为文件
             if (!await CompressionUtils.isFile(sourcePath)) {
@@ -142,25 +320,185 @@ Each operation has specific parameters. See examples below.`,
             }
             
             // 检查格式是否有效
-            if (!handler.isFormatValid(sourcePath)) {
-              return CompressionUtils.createErrorResult(
+            if (!isFormatValid) {
+              return withFormatInfo(CompressionUtils.createErrorResult(
                 `File is not a valid ${format} file: ${sourcePath}`,
                 `Expected file extensions: ${handler.getSupportedExtensions().join(', ')}`
-              );
+              ), formatInfo);
             }
             
             // 执行内容列表
-            return handler.listContents(
+            return withFormatInfo(await handler.listContents(
               sourcePath, 
-              { previewLength: previewLength || 1000 }
-            );
+              {
+                previewLength: previewLength || 1000,
+                patterns,
+                offset: offset || 0,
+                limit: limit || 1000,
+                maxTotalSize,
+                maxExpansionRatio
+              }
+            ), formatInfo);
+          }
+          
+          case 'read-entry': {
+            const { entryPath, encoding, byteOffset, byteLength, startLine, endLine, maxBytes, password } = params;
+            
+            // 检查源路径是否为文件
+            if (!await CompressionUtils.isFile(sourcePath)) {
+              return CompressionUtils.createErrorResult(
+                `Source path must be a file: ${sourcePath}`
+              );
+            }
+            
+            // 检查格式是否有效
+            if (!isFormatValid) {
+              return withFormatInfo(CompressionUtils.createErrorResult(
+                `File is not a valid ${format} file: ${sourcePath}`,
+                `Expected file extensions: ${handler.getSupportedExtensions().join(', ')}`
+              ), formatInfo);
+            }
+            
+            if (!handler.readEntry) {
+              return CompressionUtils.createErrorResult(
+                `Operation read-entry is not supported for format: ${format}`
+              );
+            }
+            
+            // 读取条目内容
+            return withFormatInfo(await handler.readEntry(
+              sourcePath,
+              {
+                entryPath,
+                encoding,
+                byteOffset,
+                byteLength,
+                startLine,
+                endLine,
+                maxBytes,
+                password
+              }
+            ), formatInfo);
+          }
+          
+          case 'test': {
+            const { password } = params;
+            
+            // 检查源路径是否为文件
+            if (!await CompressionUtils.isFile(sourcePath)) {
+              return CompressionUtils.createErrorResult(
+                `Source path must be a file: ${sourcePath}`
+              );
+            }
+            
+            // 检查格式是否有效
+            if (!isFormatValid) {
+              return withFormatInfo(CompressionUtils.createErrorResult(
+                `File is not a valid ${format} file: ${sourcePath}`,
+                `Expected file extensions: ${handler.getSupportedExtensions().join(', ')}`
+              ), formatInfo);
+            }
+            
+            // 执行完整性测试
+            return withFormatInfo(await handler.test(sourcePath, { password }), formatInfo);
+          }
+          
+          case 'add':
+          case 'update':
+          case 'delete': {
+            const { inputPath, entryPath, patterns, compressionLevel, password, encryptionMethod, symlinks } = params;
+            
+            // 检查源路径是否为文件
+            if (!await CompressionUtils.isFile(sourcePath)) {
+              return CompressionUtils.createErrorResult(
+                `Source path must be an existing archive file: ${sourcePath}`
+              );
+            }
+            
+            // 检查格式是否有效
+            if (!isFormatValid) {
+              return withFormatInfo(CompressionUtils.createErrorResult(
+                `File is not a valid ${format} file: ${sourcePath}`,
+                `Expected file extensions: ${handler.getSupportedExtensions().join(', ')}`
+              ), formatInfo);
+            }
+            
+            if (!handler.modify) {
+              return CompressionUtils.createErrorResult(
+                `Operation ${operation} is not supported for format: ${format}`,
+                'Only zip and tar archives can be modified'
+              );
+            }
+            
+            // 修改归档
+            return withFormatInfo(await handler.modify(
+              sourcePath,
+              {
+                action: operation,
+                inputPath,
+                entryPath,
+                patterns,
+                compressionLevel,
+                password,
+                encryptionMethod,
+                symlinks
+              }
+            ), formatInfo);
+          }
+          
+          case 'diff': {
+            const { password } = params;
+            
+            // 检查源路径是否为文件
+            if (!await CompressionUtils.isFile(sourcePath)) {
+              return CompressionUtils.createErrorResult(
+                `Source path must be a file: ${sourcePath}`
+              );
+            }
+            
+            // 检查格式是否有效
+            if (!isFormatValid) {
+              return withFormatInfo(CompressionUtils.createErrorResult(
+                `File is not a valid ${format} file: ${sourcePath}`,
+                `Expected file extensions: ${handler.getSupportedExtensions().join(', ')}`
+              ), formatInfo);
+            }
+            
+            if (!params.comparePath) {
+              return CompressionUtils.createErrorResult('comparePath is required for the diff operation');
+            }
+            
+            // 比较对象可以是目录或任意已注册格式的归档
+            const comparePath = await CompressionUtils.resolveSafePath(params.comparePath);
+            if (!await CompressionUtils.fileExists(comparePath)) {
+              return CompressionUtils.createErrorResult(`Compare path does not exist: ${comparePath}`);
+            }
+            
+            let target;
+            if (await CompressionUtils.isDirectory(comparePath)) {
+              target = await ArchiveDiffer.readDirectory(comparePath);
+            } else {
+              const compareHandler = (await registry.detectFormat(comparePath))?.handler || registry.getHandlerForFile(comparePath);
+              if (!compareHandler) {
+                return CompressionUtils.createErrorResult(
+                  `Unable to determine the archive format of ${comparePath}`,
+                  `Supported formats are: ${registry.getAllFormats().join(', ')}`
+                );
+              }
+              target = await ArchiveDiffer.readArchive(compareHandler, comparePath, password);
+            }
+            
+            // 比较条目
+            const source = await ArchiveDiffer.readArchive(handler, sourcePath, password);
+            const diff = await ArchiveDiffer.compare(source, target);
+            return withFormatInfo(ArchiveDiffer.createResult(sourcePath, comparePath, diff), formatInfo);
           }
           
           default:
             // 这里不应该到达，因为zod已经验证了operation类型
             return CompressionUtils.createErrorResult(
               `Unsupported operation: ${operation as string}`,
-              `Supported operations are: compress, decompress, list`
+              `Supported operations are: compress, decompress, list, read-entry, test, add, update, delete, diff, verify`
             );
         }
       } catch (error: any) {
@@ -171,4 +509,198 @@ Each operation has specific parameters. See examples below.`,
       }
     }
   };
-}
\ No newline at end of file
+}
+
+/**
+ * 解析auto格式：压缩时取输出文件名的扩展名，其他操作取文件内容检测结果
+ * @returns 格式名称，无法确定时返回错误结果
+ */
+function resolveAutoFormat(
+  registry: FormatRegistry,
+  operation: string,
+  detection: FormatDetection | undefined,
+  outputFileName?: string
+): string | OperationResult {
+  if (operation === 'compress') {
+    const handler = outputFileName ? registry.getHandlerByExtension(outputFileName) : undefined;
+    if (!handler) {
+      return CompressionUtils.createErrorResult(
+        'Cannot determine the format to compress to',
+        'With format auto, outputFileName must end with a supported extension, e.g. archive.tar.xz'
+      );
+    }
+    return handler.getFormatName();
+  }
+
+  if (!detection) {
+    return CompressionUtils.createErrorResult(
+      'Unable to detect the archive format from the file contents',
+      `Specify one of the supported formats explicitly: ${registry.getAllFormats().join(', ')}`
+    );
+  }
+
+  if (!detection.handler) {
+    return CompressionUtils.createErrorResult(
+      `Detected ${detection.format} content, which is not a supported format`,
+      `Supported formats are: ${registry.getAllFormats().join(', ')}`
+    );
+  }
+
+  return detection.format;
+}
+
+/**
+ * 文件内容与扩展名或所用格式不一致时生成提示
+ * 启发式检测结果不可靠，不用于否定所用的格式
+ */
+function getFormatWarning(
+  registry: FormatRegistry,
+  sourcePath: string,
+  format: string,
+  detection: FormatDetection | undefined
+): string | undefined {
+  if (!detection) {
+    return undefined;
+  }
+
+  if (!detection.heuristic && !FormatDetector.isCompatible(detection.format, format)) {
+    return `File content looks like ${detection.format}, but ${format} was used to read ${sourcePath}`;
+  }
+
+  const extensionHandler = registry.getHandlerByExtension(path.basename(sourcePath));
+  if (extensionHandler && !FormatDetector.isCompatible(detection.format, extensionHandler.getFormatName())) {
+    return `File extension suggests ${extensionHandler.getFormatName()}, but the content is ${detection.format}: ${sourcePath}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * 为压缩结果生成校验清单文件，并将清单内嵌到结果中
+ * 清单文件已存在时与归档使用相同的onConflict策略
+ */
+async function attachManifest(
+  result: OperationResult,
+  targetPath: string,
+  algorithm: ChecksumAlgorithm,
+  onConflict?: ConflictPolicy
+): Promise<OperationResult> {
+  const entries = result.content!.entryChecksums || [];
+  delete result.content!.entryChecksums;
+  const manifest = await ChecksumManifest.create(targetPath, algorithm, entries);
+
+  // keep-newer按归档的修改时间比较，新写入的归档总是比旧清单新
+  const conflicts = new ConflictResolver(onConflict);
+  let manifestPath: string | null;
+  try {
+    manifestPath = await conflicts.resolve(
+      ChecksumManifest.getManifestPath(targetPath, algorithm),
+      async () => (await fs.promises.stat(targetPath)).mtime
+    );
+  } catch (error: any) {
+    if (error instanceof OutputConflictError) {
+      return CompressionUtils.createErrorResult(
+        `Compressed to ${targetPath}, but the checksum manifest was not written: ${error.message}`,
+        'Set onConflict to overwrite or rename to replace the existing manifest'
+      );
+    }
+    throw error;
+  }
+  if (manifestPath) {
+    await ChecksumManifest.write(manifestPath, manifest);
+  }
+
+  const embedEntries = manifest.entries.length <= MAX_EMBEDDED_MANIFEST_ENTRIES;
+  result.content!.manifest = {
+    algorithm,
+    manifestPath: manifestPath || ChecksumManifest.getManifestPath(targetPath, algorithm),
+    ...(manifestPath ? {} : { skipped: true }),
+    archiveChecksum: manifest.archive.checksum,
+    entryCount: manifest.entries.length,
+    ...(embedEntries ? { entries: manifest.entries } : {}),
+    conflicts: conflicts.getReport().conflicts
+  };
+  return result;
+}
+
+/**
+ * 用校验清单校验归档文件或解压后的目录
+ * 校验归档时用format（或auto检测到的格式）对应的处理器流式读取每个条目，与清单中的条目校验值比较
+ */
+async function verifyManifest(
+  registry: FormatRegistry,
+  sourcePath: string,
+  params: { format: string, manifestPath?: string, password?: string }
+): Promise<OperationResult> {
+  const isDirectory = await CompressionUtils.isDirectory(sourcePath);
+  const manifestPath = params.manifestPath
+    ? await CompressionUtils.resolveSafePath(params.manifestPath)
+    : isDirectory ? undefined : await ChecksumManifest.findManifest(sourcePath);
+
+  if (!manifestPath) {
+    return CompressionUtils.createErrorResult(
+      `No checksum manifest found for ${sourcePath}`,
+      isDirectory
+        ? 'Specify manifestPath to verify a directory'
+        : 'Specify manifestPath, or compress with checksum to create archive.sha256 next to the archive'
+    );
+  }
+
+  if (!await CompressionUtils.isFile(manifestPath)) {
+    return CompressionUtils.createErrorResult(`Manifest file does not exist: ${manifestPath}`);
+  }
+
+  const manifest = await ChecksumManifest.read(manifestPath);
+  let verification: ManifestVerification;
+  if (isDirectory) {
+    verification = await ChecksumManifest.verifyDirectory(manifest, sourcePath);
+  } else if (manifest.entries.length === 0) {
+    verification = await ChecksumManifest.verifyArchive(manifest, sourcePath);
+  } else {
+    const format = params.format.toLowerCase();
+    const handler: CompressionHandler | undefined = format === AUTO_FORMAT
+      ? (await registry.detectFormat(sourcePath))?.handler
+      : registry.getHandlerByFormat(format);
+    if (!handler) {
+      return CompressionUtils.createErrorResult(
+        `Cannot read the entries of ${sourcePath} as ${format}`,
+        `Specify the archive format, one of: ${registry.getAllFormats().join(', ')}, ${AUTO_FORMAT}`
+      );
+    }
+
+    const tested = await handler.test(sourcePath, { password: params.password, checksum: manifest.algorithm });
+    if (tested.isError) {
+      return tested;
+    }
+    verification = await ChecksumManifest.verifyArchive(manifest, sourcePath, tested.content!.entries as EntryTestResult[]);
+  }
+
+  const message = verification.verified
+    ? `${sourcePath} matches ${manifestPath} (${verification.passedEntries} checksums verified)`
+    : `${sourcePath} does not match ${manifestPath}: ${verification.failed.length} of ${verification.checkedEntries} checksums failed`;
+  return CompressionUtils.createSuccessResult(message, { sourcePath, manifestPath, ...verification });
+}
+
+/**
+ * 在结果中附加检测到的格式和不一致提示
+ */
+function withFormatInfo(
+  result: OperationResult,
+  info: { detectedFormat?: string, formatWarning?: string }
+): OperationResult {
+  if (result.isError) {
+    if (info.formatWarning && result.error) {
+      result.error.details = result.error.details
+        ? `${info.formatWarning}\n${result.error.details}`
+        : info.formatWarning;
+    }
+  } else if (result.content) {
+    if (info.detectedFormat) {
+      result.content.detectedFormat = info.detectedFormat;
+    }
+    if (info.formatWarning) {
+      result.content.formatWarning = info.formatWarning;
+    }
+  }
+  return result;
+}
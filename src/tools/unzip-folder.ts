@@ -1,7 +1,13 @@
 import { promises as fs } from 'fs';
-import { join, basename, dirname, isAbsolute, resolve, normalize, extname } from 'path';
-import * as tar from 'tar';
+import { join, dirname, normalize, extname } from 'path';
 import { z } from 'zod';
+import { TarGzHandler } from '../handlers/tar-gz-handler.js';
+import { CompressionUtils, CONFLICT_POLICIES } from '../utils/compression-utils.js';
+import { SkippedEntry } from '../utils/extraction-guard.js';
+import { ConflictRecord, ConflictResolver } from '../utils/conflict-resolver.js';
+
+// Shared tar.gz handler used by the folder extraction tool
+const tarGzHandler = new TarGzHandler();
 
 // Folder decompression tool parameter definition
 const unzipFolderParameters = z.object({
@@ -27,23 +33,29 @@ const unzipFolderParameters = z.object({
     }, "Invalid output directory path")
     .describe("Output directory (defaults to source archive's directory)"),
   stripComponents: z.number().int().min(0).default(0)
-    .describe("Number of directory levels to strip during extraction (default is 0, keeping original directory structure)")
+    .describe("Number of directory levels to strip during extraction (default is 0, keeping original directory structure)"),
+  include: z.array(z.string().min(1)).optional()
+    .describe("Only extract entries matching these glob patterns, e.g. [\"config/app.yaml\", \"docs/**\"]"),
+  exclude: z.array(z.string().min(1)).optional()
+    .describe("Skip entries matching these glob patterns"),
+  onConflict: z.enum(CONFLICT_POLICIES).default('error')
+    .describe("What to do if an extracted file already exists: error, overwrite, skip, rename or keep-newer"),
+  preserveOwnership: z.boolean().optional()
+    .describe("Restore the uid/gid recorded in the archive (defaults to true only when running as root)")
 });
 
 // Export folder extraction tool
 export function createUnzipFolderTool() {
   return {
     name: "unzip-folder",
-    description: "Extract tar.gz format compressed folders. Specify output directory and directory level stripping options. Supports progress reporting.",
+    description: "Extract tar.gz format compressed folders. Specify output directory and directory level stripping options. Restores permissions and modification times. Supports progress reporting.",
     parameters: unzipFolderParameters,
     execute: async (args: z.infer<typeof unzipFolderParameters>, { reportProgress }: { reportProgress: (progress: { progress: number, total: number, message?: string }) => void }) => {
-      const { sourceArchivePath, outputDirectory, stripComponents } = args;
+      const { sourceArchivePath, outputDirectory, stripComponents, include, exclude, onConflict, preserveOwnership } = args;
 
       try {
         // Path normalization
-        const absoluteSourcePath = isAbsolute(sourceArchivePath) 
-          ? sourceArchivePath 
-          : resolve(process.cwd(), sourceArchivePath);
+        const absoluteSourcePath = await CompressionUtils.resolveSafePath(sourceArchivePath);
 
         // Check if source archive exists
         let fileStats;
@@ -64,7 +76,7 @@ export function createUnzipFolderTool() {
 
         // Check file extension
         const fileExt = extname(absoluteSourcePath).toLowerCase();
-        if (fileExt !== '.gz' && !absoluteSourcePath.toLowerCase().endsWith('.tar.gz')) {
+        if (fileExt !== '.gz' && fileExt !== '.tgz' && !absoluteSourcePath.toLowerCase().endsWith('.tar.gz')) {
           return {
             isError: true,
             content: [{ type: "text", text: `Error: ${absoluteSourcePath} is not a tar.gz file` }]
@@ -73,9 +85,7 @@ export function createUnzipFolderTool() {
 
         // Process output directory
         const sourceDir = dirname(absoluteSourcePath);
-        const targetDir = outputDirectory 
-          ? (isAbsolute(outputDirectory) ? outputDirectory : resolve(process.cwd(), outputDirectory))
-          : sourceDir;
+        const targetDir = await CompressionUtils.resolveSafePath(outputDirectory || sourceDir);
         
         // Ensure output directory exists
         try {
@@ -94,20 +104,50 @@ export function createUnzipFolderTool() {
           message: `Starting extraction of ${absoluteSourcePath}...`
         });
 
-        // Extract the tar.gz file
-        try {
-          await tar.extract({
-            file: absoluteSourcePath,
-            cwd: targetDir,
-            strip: stripComponents
-          });
-        } catch (error) {
+        // Delegate extraction to the tar.gz handler
+        const result = await tarGzHandler.decompress(
+          absoluteSourcePath,
+          targetDir,
+          { stripComponents, include, exclude, onConflict, preserveOwnership },
+          CompressionUtils.toToolProgress(reportProgress)
+        );
+
+        if (result.isError) {
           return {
             isError: true,
-            content: [{ type: "text", text: `Error during extraction: ${error instanceof Error ? error.message : String(error)}` }]
+            content: [{ type: "text", text: `Error during extraction: ${result.error?.message}` }]
           };
         }
 
+        const { fileCount, directoryCount, skippedEntries, unmatchedPatterns, conflicts, ownershipErrors } = result.content!;
+
+        // Entries rejected by the extraction guard (unsafe paths, escaping links, device files)
+        const skippedText = skippedEntries.length > 0
+          ? `Skipped entries (${skippedEntries.length}):\n${skippedEntries
+              .map((entry: SkippedEntry) => `- ${entry.path}: ${entry.reason}`)
+              .join('\n')}\n`
+          : '';
+
+        // Existing files handled according to onConflict
+        const conflictText = conflicts.length > 0
+          ? `Existing files (${conflicts.length}, onConflict: ${onConflict}):\n${conflicts
+              .map((conflict: ConflictRecord) => `- ${ConflictResolver.describe(conflict)}`)
+              .join('\n')}\n`
+          : '';
+
+        // Entries extracted with the current user as owner because chown was not permitted
+        const ownershipText = ownershipErrors.length > 0
+          ? `Ownership not restored (${ownershipErrors.length}):\n${ownershipErrors
+              .map((entry: SkippedEntry) => `- ${entry.path}: ${entry.reason}`)
+              .join('\n')}\n`
+          : '';
+
+        // Patterns that did not select or exclude any entry
+        const unmatched = [...unmatchedPatterns.include, ...unmatchedPatterns.exclude];
+        const unmatchedText = unmatched.length > 0
+          ? `Patterns that matched no entries: ${unmatched.join(', ')}\n`
+          : '';
+
         // Report completion
         reportProgress({
           progress: 100,
@@ -122,8 +162,9 @@ export function createUnzipFolderTool() {
               text: `Extraction successful:
 Source archive: ${absoluteSourcePath}
 Extracted to: ${targetDir}
+Files: ${fileCount}, directories: ${directoryCount}
 Strip components: ${stripComponents}
-` 
+${skippedText}${conflictText}${ownershipText}${unmatchedText}` 
             }
           ]
         };
@@ -1,8 +1,12 @@
 import { createReadStream, createWriteStream, promises as fs } from 'fs';
-import { join, basename, dirname, isAbsolute, resolve, normalize } from 'path';
+import { join, basename, dirname, normalize } from 'path';
 import { createGunzip } from 'zlib';
 import { z } from 'zod';
 import { pipeline } from 'stream/promises';
+import { CompressionUtils, CONFLICT_POLICIES } from '../utils/compression-utils.js';
+import { ConflictResolver } from '../utils/conflict-resolver.js';
+import { DecompressionLimiter } from '../utils/decompression-limits.js';
+import { AtomicOutput } from '../utils/atomic-output.js';
 
 // 解压工具参数定义 - 使用更严格的验证
 const unzipParameters = z.object({
@@ -33,6 +37,8 @@ const unzipParameters = z.object({
       return !name.includes('/') && !name.includes('\\'); // 防止路径注入
     }, "Filename cannot contain path separators")
     .describe("Output filename (defaults to original file name without .gz suffix)"),
+  onConflict: z.enum(CONFLICT_POLICIES).default('error')
+    .describe("What to do if the output file already exists: error, overwrite, skip, rename or keep-newer"),
 });
 
 // 导出解压工具创建函数
@@ -42,13 +48,11 @@ export function createUnzipTool() {
     description: "Decompress gzip files. Specify output directory and filename. Supports progress reporting. Suitable for decompressing .gz files.",
     parameters: unzipParameters,
     execute: async (args: z.infer<typeof unzipParameters>, { reportProgress }: { reportProgress: (progress: { progress: number, total: number, message?: string }) => void }) => {
-      const { sourceFilePath, outputDirectory, outputFileName } = args;
+      const { sourceFilePath, outputDirectory, outputFileName, onConflict } = args;
 
       try {
         // 路径安全检查
-        const absoluteSourcePath = isAbsolute(sourceFilePath) 
-          ? sourceFilePath 
-          : resolve(process.cwd(), sourceFilePath);
+        const absoluteSourcePath = await CompressionUtils.resolveSafePath(sourceFilePath);
         
         // 检查源文件是否存在
         let fileStats;
@@ -69,9 +73,7 @@ export function createUnzipTool() {
 
         // 确定输出目录和文件名
         const baseDir = dirname(absoluteSourcePath);
-        const outputDir = outputDirectory 
-          ? (isAbsolute(outputDirectory) ? outputDirectory : resolve(process.cwd(), outputDirectory))
-          : baseDir;
+        const outputDir = await CompressionUtils.resolveSafePath(outputDirectory || baseDir);
         
         // 默认输出文件名是去掉.gz后缀
         let baseOutputFileName = outputFileName;
@@ -82,7 +84,7 @@ export function createUnzipTool() {
             : `${srcFilename}.extracted`;
         }
         
-        const outputPath = join(outputDir, baseOutputFileName);
+        const requestedPath = join(outputDir, baseOutputFileName);
 
         // 确保输出目录存在
         try {
@@ -94,6 +96,23 @@ export function createUnzipTool() {
           };
         }
 
+        // 按onConflict策略处理已存在的输出文件，keep-newer按压缩文件的修改时间比较
+        const conflicts = new ConflictResolver(onConflict);
+        let outputPath: string | null;
+        try {
+          outputPath = await conflicts.resolve(requestedPath, fileStats.mtime);
+        } catch (error) {
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}. Set onConflict to overwrite, skip, rename or keep-newer` }]
+          };
+        }
+        if (!outputPath) {
+          return {
+            content: [{ type: "text", text: `Skipped: output file ${requestedPath} already exists (onConflict: ${onConflict})` }]
+          };
+        }
+
         // 报告开始解压
         reportProgress({
           progress: 0,
@@ -101,11 +120,10 @@ export function createUnzipTool() {
           message: `Starting decompression of ${absoluteSourcePath}...`
         });
 
-        // 创建读取流、解压流和写入流
-        let source, destination;
+        // 创建读取流和解压流
+        let source;
         try {
           source = createReadStream(absoluteSourcePath);
-          destination = createWriteStream(outputPath);
         } catch (error) {
           return {
             isError: true,
@@ -114,6 +132,8 @@ export function createUnzipTool() {
         }
         
         const gunzip = createGunzip();
+        // 使用默认解压限制防止解压炸弹
+        const limiter = new DecompressionLimiter(fileStats.size);
 
         // 设置进度报告
         const totalSize = fileStats.size;
@@ -130,9 +150,14 @@ export function createUnzipTool() {
           });
         });
 
-        // 执行解压
+        // 执行解压，写入临时文件，完成后再替换输出文件；出错（如超出解压限制）时删除临时文件
+        // 与gzip -d一致，输出文件沿用压缩文件的权限和修改时间
         try {
-          await pipeline(source, gunzip, destination);
+          await AtomicOutput.writeFile(outputPath, async tempPath => {
+            await pipeline(source, gunzip, limiter.createMeter(), createWriteStream(tempPath));
+            await fs.chmod(tempPath, fileStats.mode & 0o777);
+            await fs.utimes(tempPath, fileStats.atime, fileStats.mtime);
+          });
         } catch (error) {
           return {
             isError: true,
@@ -168,7 +193,7 @@ export function createUnzipTool() {
           content: [
             { 
               type: "text", 
-              text: `File successfully decompressed to: ${outputPath}\nCompressed file size: ${fileStats.size} bytes\nDecompressed size: ${extractedStats.size} bytes\nExpansion ratio: ${extractionRatioFormatted}` 
+              text: `File successfully decompressed to: ${outputPath}\nCompressed file size: ${fileStats.size} bytes\nDecompressed size: ${extractedStats.size} bytes\nExpansion ratio: ${extractionRatioFormatted}${conflicts.getReport().conflicts.map(conflict => `\n${ConflictResolver.describe(conflict)}`).join('')}` 
             }
           ]
         };
@@ -1,7 +1,13 @@
 import { promises as fs } from 'fs';
-import { join, basename, dirname, isAbsolute, resolve, normalize } from 'path';
+import { join, basename, dirname, normalize } from 'path';
 import { z } from 'zod';
-import * as JSZip from 'jszip';
+import { ZipHandler } from '../handlers/zip-handler.js';
+import { CompressionUtils, CONFLICT_POLICIES, SYMLINK_POLICIES } from '../utils/compression-utils.js';
+import { ConflictRecord, ConflictResolver } from '../utils/conflict-resolver.js';
+import { SkippedEntry } from '../utils/extraction-guard.js';
+
+// ZIP压缩工具使用的ZIP处理器
+const zipHandler = new ZipHandler();
 
 // ZIP压缩工具参数定义
 const zipArchiveParameters = z.object({
@@ -33,51 +39,42 @@ const zipArchiveParameters = z.object({
     }, "文件名不能包含路径分隔符")
     .describe("输出文件名（默认为原文件或文件夹名+.zip）"),
   compressionLevel: z.number().int().min(1).max(9).default(6)
-    .describe("压缩级别 (1-9)，值越大压缩比越高但速度越慢")
+    .describe("压缩级别 (1-9)，值越大压缩比越高但速度越慢"),
+  password: z.string().min(1).optional()
+    .describe("设置后创建加密的ZIP文件，密码不会出现在进度信息和结果中"),
+  encryptionMethod: z.enum(['aes256', 'zipcrypto']).default('aes256')
+    .describe("加密方式：aes256（推荐）或兼容旧解压工具的zipcrypto"),
+  onConflict: z.enum(CONFLICT_POLICIES).default('error')
+    .describe("输出文件已存在时的处理方式：error、overwrite、skip、rename或keep-newer"),
+  symlinks: z.enum(SYMLINK_POLICIES).default('preserve')
+    .describe("文件夹中符号链接的处理方式：preserve保存为链接条目，follow跟随链接保存目标内容，skip跳过"),
+  include: z.array(z.string().min(1)).optional()
+    .describe("压缩文件夹时只打包匹配这些glob模式的文件（相对于文件夹的路径），如[\"src/**\", \"package.json\"]"),
+  exclude: z.array(z.string().min(1)).optional()
+    .describe("压缩文件夹时跳过匹配这些glob模式的文件和文件夹，如[\"node_modules\", \".git\", \"dist\"]"),
+  ignoreFiles: z.array(z.string().min(1)).optional()
+    .describe("压缩文件夹时在各级文件夹中读取的忽略文件（.gitignore语法），如[\".gitignore\", \".npmignore\"]")
 });
 
-// 递归获取文件夹中的所有文件
-async function getFilesRecursively(dir: string, rootDir: string): Promise<{filePath: string, relativePath: string}[]> {
-  const entries = await fs.readdir(dir, { withFileTypes: true });
-  
-  const files: {filePath: string, relativePath: string}[] = [];
-  for (const entry of entries) {
-    const fullPath = join(dir, entry.name);
-    const relPath = fullPath.replace(rootDir + '/', '');
-    
-    if (entry.isDirectory()) {
-      const subDirFiles = await getFilesRecursively(fullPath, rootDir);
-      files.push(...subDirFiles);
-    } else {
-      files.push({
-        filePath: fullPath,
-        relativePath: relPath
-      });
-    }
-  }
-  
-  return files;
-}
-
 // 导出ZIP压缩工具
 export function createZipArchiveTool() {
   return {
     name: "zip-archive",
-    description: "Use ZIP format to compress files or folders. Specify output directory, filename, and compression level. Supports progress reporting.",
+    description: "Use ZIP format to compress files or folders. Specify output directory, filename, and compression level. Set a password to create an encrypted archive (AES-256 or ZipCrypto). Use include/exclude globs or ignore files such as .gitignore to leave out files like node_modules. Supports progress reporting.",
     parameters: zipArchiveParameters,
     execute: async (args: z.infer<typeof zipArchiveParameters>, { reportProgress }: { reportProgress: (progress: { progress: number, total: number, message?: string }) => void }) => {
-      const { sourcePath, outputDirectory, outputFileName, compressionLevel } = args;
+      const {
+        sourcePath, outputDirectory, outputFileName, compressionLevel, password, encryptionMethod, onConflict, symlinks,
+        include, exclude, ignoreFiles
+      } = args;
 
       try {
         // 路径规范化处理
-        const absoluteSourcePath = isAbsolute(sourcePath) 
-          ? sourcePath 
-          : resolve(process.cwd(), sourcePath);
+        const absoluteSourcePath = await CompressionUtils.resolveSafePath(sourcePath);
 
         // 检查源路径是否存在
-        let sourceStats;
         try {
-          sourceStats = await fs.stat(absoluteSourcePath);
+          await fs.stat(absoluteSourcePath);
         } catch (error) {
           return {
             isError: true,
@@ -87,9 +84,7 @@ export function createZipArchiveTool() {
 
         // 处理输出目录
         const sourceDir = dirname(absoluteSourcePath);
-        const targetDir = outputDirectory 
-          ? (isAbsolute(outputDirectory) ? outputDirectory : resolve(process.cwd(), outputDirectory))
-          : sourceDir;
+        const targetDir = await CompressionUtils.resolveSafePath(outputDirectory || sourceDir);
         
         // 确保输出目录存在
         try {
@@ -106,139 +101,39 @@ export function createZipArchiveTool() {
         const targetName = outputFileName || `${sourceBase}.zip`;
         const targetPath = join(targetDir, targetName);
 
-        // 确保不会覆盖已有文件（除非明确指定文件名）
-        if (!outputFileName) {
-          try {
-            await fs.access(targetPath);
-            // 文件已存在，自动重命名
-            const timestamp = new Date().getTime();
-            const newTargetName = `${sourceBase}_${timestamp}.zip`;
-            return {
-              isError: true,
-              content: [{ 
-                type: "text", 
-                text: `Warning: Output file ${targetPath} already exists. Please use a different output filename, e.g.: ${newTargetName}` 
-              }]
-            };
-          } catch {
-            // 文件不存在，可以继续
-          }
-        }
-
-        // 创建ZIP对象
-        const zip = new JSZip.default();
-
         reportProgress({
           progress: 0,
           total: 100,
           message: "Starting ZIP compression..."
         });
 
-        // 处理压缩
-        let files: {filePath: string, relativePath: string}[] = [];
-        let totalSize = 0;
-        
-        if (sourceStats.isDirectory()) {
-          // 如果是文件夹，递归获取所有文件
-          reportProgress({
-            progress: 5,
-            total: 100,
-            message: "Scanning folder..."
-          });
-          
-          files = await getFilesRecursively(absoluteSourcePath, absoluteSourcePath);
-          
-          if (files.length === 0) {
-            return {
-              isError: true,
-              content: [{ type: "text", text: `Warning: Folder ${absoluteSourcePath} is empty` }]
-            };
-          }
-          
-          // 计算总大小
-          for (const file of files) {
-            const stats = await fs.stat(file.filePath);
-            totalSize += stats.size;
-          }
-          
-          reportProgress({
-            progress: 10,
-            total: 100,
-            message: `Found ${files.length} files, starting compression...`
-          });
-          
-          // 添加文件到ZIP
-          let processedSize = 0;
-          let processedFiles = 0;
-          
-          for (const file of files) {
-            const fileBuffer = await fs.readFile(file.filePath);
-            zip.file(file.relativePath, fileBuffer, {
-              compression: 'DEFLATE',
-              compressionOptions: {
-                level: compressionLevel
-              }
-            });
-            
-            // 更新进度
-            processedFiles++;
-            processedSize += fileBuffer.length;
-            const fileProgress = Math.round(10 + ((processedSize / totalSize) * 80));
-            
-            reportProgress({
-              progress: fileProgress,
-              total: 100,
-              message: `ZIP compression... ${processedFiles}/${files.length} files (${fileProgress}%)`
-            });
-          }
-        } else {
-          // 如果是单个文件
-          const fileBuffer = await fs.readFile(absoluteSourcePath);
-          totalSize = fileBuffer.length;
-          
-          zip.file(sourceBase, fileBuffer, {
-            compression: 'DEFLATE',
-            compressionOptions: {
-              level: compressionLevel
-            }
-          });
-          
-          reportProgress({
-            progress: 50,
-            total: 100,
-            message: "Compressing file..."
-          });
+        // 交给ZIP处理器流式压缩，已存在的输出文件由处理器按onConflict处理
+        const result = await zipHandler.compress(
+          absoluteSourcePath,
+          targetPath,
+          { compressionLevel, password, encryptionMethod, onConflict, symlinks, include, exclude, ignoreFiles },
+          CompressionUtils.toToolProgress(reportProgress)
+        );
+
+        if (result.isError) {
+          return {
+            isError: true,
+            content: [{ type: "text", text: `ZIP compression failed: ${result.error?.message}` }]
+          };
         }
-        
-        // 生成ZIP文件
-        reportProgress({
-          progress: 90,
-          total: 100,
-          message: "Generating ZIP file..."
-        });
-        
-        const zipBuffer = await zip.generateAsync({
-          type: 'nodebuffer',
-          compression: 'DEFLATE',
-          compressionOptions: {
-            level: compressionLevel
-          }
-        }, (metadata) => {
-          reportProgress({
-            progress: 90 + Math.floor(metadata.percent / 10),
-            total: 100,
-            message: `Generating ZIP file: ${Math.floor(metadata.percent)}%`
-          });
-        });
-        
-        // 写入文件
-        await fs.writeFile(targetPath, zipBuffer);
-        
-        // 获取压缩后文件大小
-        const compressedStats = await fs.stat(targetPath);
-        
+
+        if (result.content!.skipped) {
+          return {
+            content: [{ type: "text", text: `Skipped: output file ${targetPath} already exists (onConflict: ${onConflict})` }]
+          };
+        }
+
+        const {
+          fileCount, linkCount, originalSize, compressedSize, skippedEntries, excludedFiles, excludedSize, conflicts
+        } = result.content!;
+
         // 计算压缩比
-        const compressionRatio = parseFloat((totalSize / compressedStats.size).toFixed(2));
+        const compressionRatio = parseFloat((originalSize / compressedSize).toFixed(2));
         
         // 报告完成
         reportProgress({
@@ -252,13 +147,13 @@ export function createZipArchiveTool() {
             { 
               type: "text", 
               text: `ZIP compression successful:
-Source path: ${absoluteSourcePath} ${sourceStats.isDirectory() ? `(${files.length} files)` : ''}
-ZIP file: ${targetPath}
-Original size: ${totalSize} bytes
-Compressed size: ${compressedStats.size} bytes
+Source path: ${absoluteSourcePath} (${fileCount} files${linkCount > 0 ? `, ${linkCount} links` : ''})
+ZIP file: ${result.content!.targetPath}
+Original size: ${originalSize} bytes
+Compressed size: ${compressedSize} bytes
 Compression ratio: ${compressionRatio}:1
 Compression level: ${compressionLevel}
-` 
+${excludedFiles > 0 ? `Excluded: ${excludedFiles} files (${excludedSize} bytes)${fileCount === 0 ? ', no files left to pack' : ''}\n` : ''}${skippedEntries.map((entry: SkippedEntry) => `Skipped ${entry.path}: ${entry.reason}\n`).join('')}${password ? `Encryption: ${encryptionMethod === 'aes256' ? 'AES-256' : 'ZipCrypto'}\n` : ''}${conflicts.map((conflict: ConflictRecord) => `${ConflictResolver.describe(conflict)}\n`).join('')}` 
             }
           ]
         };
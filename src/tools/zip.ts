@@ -3,7 +3,11 @@ import { createGzip } from 'zlib';
 import { pipeline } from 'stream/promises';
 import { promises as fs } from 'fs';
 import { z } from 'zod';
-import { isAbsolute, resolve, normalize, dirname, basename, join, extname } from 'path';
+import { normalize, dirname, basename, join } from 'path';
+import { CompressionUtils, CONFLICT_POLICIES } from '../utils/compression-utils.js';
+import { ConflictResolver } from '../utils/conflict-resolver.js';
+import { AtomicOutput } from '../utils/atomic-output.js';
+import { GzipHandler } from '../handlers/gzip-handler.js';
 
 // Compression tool parameter definition
 const zipParameters = z.object({
@@ -35,7 +39,9 @@ const zipParameters = z.object({
     }, "Filename cannot contain path separators")
     .describe("Output filename (defaults to original filename + .gz)"),
   compressionLevel: z.number().int().min(1).max(9).default(6)
-    .describe("Compression level (1-9), higher values provide better compression but slower speed")
+    .describe("Compression level (1-9), higher values provide better compression but slower speed"),
+  onConflict: z.enum(CONFLICT_POLICIES).default('error')
+    .describe("What to do if the output file already exists: error, overwrite, skip, rename or keep-newer")
 });
 
 // Export compression tool
@@ -45,13 +51,11 @@ export function createZipTool() {
     description: "Compress a single file using gzip format. Specify output directory, filename, and compression level. Supports progress reporting.",
     parameters: zipParameters,
     execute: async (args: z.infer<typeof zipParameters>, { reportProgress }: { reportProgress: (progress: { progress: number, total: number, message?: string }) => void }) => {
-      const { sourceFilePath, outputDirectory, outputFileName, compressionLevel } = args;
+      const { sourceFilePath, outputDirectory, outputFileName, compressionLevel, onConflict } = args;
 
       try {
         // Path normalization
-        const absoluteSourcePath = isAbsolute(sourceFilePath) 
-          ? sourceFilePath 
-          : resolve(process.cwd(), sourceFilePath);
+        const absoluteSourcePath = await CompressionUtils.resolveSafePath(sourceFilePath);
 
         // Check if source file exists
         let fileStats;
@@ -72,9 +76,7 @@ export function createZipTool() {
 
         // Process output directory
         const sourceDir = dirname(absoluteSourcePath);
-        const targetDir = outputDirectory 
-          ? (isAbsolute(outputDirectory) ? outputDirectory : resolve(process.cwd(), outputDirectory))
-          : sourceDir;
+        const targetDir = await CompressionUtils.resolveSafePath(outputDirectory || sourceDir);
         
         // Ensure output directory exists
         try {
@@ -89,27 +91,23 @@ export function createZipTool() {
         // Process output filename
         const sourceBase = basename(absoluteSourcePath);
         const targetName = outputFileName || `${sourceBase}.gz`;
-        const targetPath = join(targetDir, targetName);
+        const requestedPath = join(targetDir, targetName);
 
-        // Ensure we don't overwrite existing files (unless filename is explicitly specified)
-        if (!outputFileName) {
-          try {
-            await fs.access(targetPath);
-            // File already exists, suggest automatic renaming
-            const fileNameWithoutExt = basename(sourceBase, extname(sourceBase));
-            const fileExt = extname(sourceBase);
-            const timestamp = new Date().getTime();
-            const newTargetName = `${fileNameWithoutExt}_${timestamp}${fileExt}.gz`;
-            return {
-              isError: true,
-              content: [{ 
-                type: "text", 
-                text: `Warning: Output file ${targetPath} already exists. Please use a different filename, for example: ${newTargetName}` 
-              }]
-            };
-          } catch {
-            // File doesn't exist, proceed
-          }
+        // Handle an existing output file according to onConflict
+        const conflicts = new ConflictResolver(onConflict);
+        let targetPath: string | null;
+        try {
+          targetPath = await conflicts.resolveTarget(requestedPath, absoluteSourcePath);
+        } catch (error) {
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}. Set onConflict to overwrite, skip, rename or keep-newer` }]
+          };
+        }
+        if (!targetPath) {
+          return {
+            content: [{ type: "text", text: `Skipped: output file ${requestedPath} already exists (onConflict: ${onConflict})` }]
+          };
         }
 
         // Report compression start
@@ -131,16 +129,6 @@ export function createZipTool() {
         }
         
         const gzip = createGzip({ level: compressionLevel });
-        
-        let destination;
-        try {
-          destination = createWriteStream(targetPath);
-        } catch (error) {
-          return {
-            isError: true,
-            content: [{ type: "text", text: `Error: Cannot create output file. ${error instanceof Error ? error.message : String(error)}` }]
-          };
-        }
 
         // Set up progress reporting
         let processedBytes = 0;
@@ -157,9 +145,19 @@ export function createZipTool() {
           });
         });
 
-        // Execute compression
+        // Execute compression into a temporary file, then rename it over the target on success.
+        // The gzip header records the original name and mtime; like gzip(1), the output keeps the source mode and mtime
         try {
-          await pipeline(source, gzip, destination);
+          await AtomicOutput.writeFile(targetPath, async tempPath => {
+            await pipeline(
+              source,
+              gzip,
+              GzipHandler.createHeaderWriter({ name: sourceBase, mtime: fileStats.mtime }),
+              createWriteStream(tempPath)
+            );
+            await fs.chmod(tempPath, fileStats.mode & 0o777);
+            await fs.utimes(tempPath, fileStats.atime, fileStats.mtime);
+          });
         } catch (error) {
           return {
             isError: true,
@@ -189,7 +187,7 @@ Source file: ${absoluteSourcePath} (${fileStats.size} bytes)
 Compressed file: ${targetPath} (${compressedStats.size} bytes)
 Compression ratio: ${compressionRatio}:1
 Compression level: ${compressionLevel}
-` 
+${conflicts.getReport().conflicts.map(conflict => `${ConflictResolver.describe(conflict)}\n`).join('')}` 
             }
           ]
         };
@@ -0,0 +1,296 @@
+import { createReadStream } from 'fs';
+import { crc32 } from 'zlib';
+import {
+  ArchiveEntry,
+  ArchiveEntryType,
+  CompressionHandler,
+  EntryTestResult,
+  OperationResult
+} from '../interfaces/compression-handler.js';
+import { CompressionUtils } from './compression-utils.js';
+import { GlobMatcher } from './glob-matcher.js';
+
+/**
+ * 参与比较的条目信息
+ */
+export interface ComparedEntry {
+  path: string;
+  type: ArchiveEntryType;
+  size: number;
+  crc32?: string;
+  mode?: number;
+  linkTarget?: string;
+}
+
+/**
+ * 条目中发生变化的字段
+ */
+export type EntryChange = 'type' | 'size' | 'crc32' | 'mode' | 'linkTarget';
+
+/**
+ * 两侧都存在但内容或属性不同的条目
+ */
+export interface ModifiedEntry {
+  path: string;
+  changes: EntryChange[];
+  source: ComparedEntry;
+  target: ComparedEntry;
+}
+
+/**
+ * 比较结果，added为只存在于比较对象中的条目，removed为只存在于源归档中的条目
+ */
+export interface ArchiveDiff {
+  identical: boolean;
+  added: ComparedEntry[];
+  removed: ComparedEntry[];
+  modified: ModifiedEntry[];
+  unchangedEntries: number;
+  unverifiedEntries: string[];  // 大小相同但无法得到CRC32的条目（如缺少密码的加密条目），未比较内容
+}
+
+/**
+ * 条目快照，目录中的文件在需要时才计算CRC32
+ */
+interface SnapshotEntry extends ComparedEntry {
+  absolutePath?: string;
+}
+
+type EntrySnapshot = Map<string, SnapshotEntry>;
+
+/**
+ * 归档比较器
+ * 比较两个归档或归档与目录的条目列表、大小、CRC32和权限，内容按CRC32判断是否相同
+ */
+export class ArchiveDiffer {
+  /**
+   * 读取归档的条目快照
+   * 优先使用列表结果中的CRC32，缺少时（如tar格式、AES加密条目）通过完整性测试流式计算
+   */
+  static async readArchive(handler: CompressionHandler, archivePath: string, password?: string): Promise<EntrySnapshot> {
+    const listing = await handler.listContents(archivePath, { limit: Number.MAX_SAFE_INTEGER });
+    if (listing.isError) {
+      throw new Error(listing.error!.message);
+    }
+
+    const snapshot: EntrySnapshot = new Map();
+    for (const entry of listing.content!.entries || []) {
+      const compared = ArchiveDiffer.toComparedEntry(entry);
+      snapshot.set(compared.path, compared);
+    }
+
+    const needsChecksums = [...snapshot.values()].some(entry => entry.type === 'file' && !entry.crc32);
+    if (needsChecksums) {
+      const report = await handler.test(archivePath, { password });
+      if (report.isError) {
+        throw new Error(report.error!.message);
+      }
+      for (const result of report.content!.entries as EntryTestResult[]) {
+        const entry = snapshot.get(GlobMatcher.normalizePath(result.path));
+        if (entry && !entry.crc32 && result.status === 'passed' && result.crc32) {
+          entry.crc32 = result.crc32;
+        }
+      }
+    }
+
+    // 硬链接与其目标是同一文件，按目标文件比较（目录和不支持硬链接的格式中是普通文件）
+    for (const entry of snapshot.values()) {
+      const linked = entry.type === 'hardlink' && entry.linkTarget !== undefined
+        ? snapshot.get(GlobMatcher.normalizePath(entry.linkTarget))
+        : undefined;
+      if (linked?.type === 'file') {
+        snapshot.set(entry.path, { ...linked, path: entry.path, mode: entry.mode ?? linked.mode });
+      }
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * 读取目录的条目快照，路径与归档条目一样相对于目录本身
+   */
+  static async readDirectory(dirPath: string): Promise<EntrySnapshot> {
+    const snapshot: EntrySnapshot = new Map();
+    for (const entry of await CompressionUtils.listDirectoryEntries(dirPath)) {
+      snapshot.set(entry.relativePath, {
+        path: entry.relativePath,
+        type: entry.type,
+        size: entry.size,
+        mode: entry.mode & 0o7777,
+        linkTarget: entry.linkTarget,
+        absolutePath: entry.type === 'file' ? entry.absolutePath : undefined
+      });
+    }
+    return snapshot;
+  }
+
+  /**
+   * 比较两个快照
+   * 只存在于一侧的目录条目若在另一侧隐含存在（是某个条目的上级目录），不视为差异
+   */
+  static async compare(source: EntrySnapshot, target: EntrySnapshot): Promise<ArchiveDiff> {
+    const diff: ArchiveDiff = {
+      identical: false,
+      added: [],
+      removed: [],
+      modified: [],
+      unchangedEntries: 0,
+      unverifiedEntries: []
+    };
+    const sourceDirectories = ArchiveDiffer.getImpliedDirectories(source);
+    const targetDirectories = ArchiveDiffer.getImpliedDirectories(target);
+
+    for (const [entryPath, sourceEntry] of source) {
+      const targetEntry = target.get(entryPath);
+      if (!targetEntry) {
+        if (sourceEntry.type === 'directory' && targetDirectories.has(entryPath)) {
+          diff.unchangedEntries++;
+        } else {
+          diff.removed.push(ArchiveDiffer.toResultEntry(sourceEntry));
+        }
+        continue;
+      }
+
+      const changes = await ArchiveDiffer.getChanges(sourceEntry, targetEntry, diff.unverifiedEntries);
+      if (changes.length > 0) {
+        diff.modified.push({
+          path: entryPath,
+          changes,
+          source: ArchiveDiffer.toResultEntry(sourceEntry),
+          target: ArchiveDiffer.toResultEntry(targetEntry)
+        });
+      } else {
+        diff.unchangedEntries++;
+      }
+    }
+
+    for (const [entryPath, targetEntry] of target) {
+      if (source.has(entryPath)) {
+        continue;
+      }
+      if (targetEntry.type === 'directory' && sourceDirectories.has(entryPath)) {
+        diff.unchangedEntries++;
+      } else {
+        diff.added.push(ArchiveDiffer.toResultEntry(targetEntry));
+      }
+    }
+
+    // 有条目无法比较内容时不能断定两侧相同
+    diff.identical = diff.added.length === 0 && diff.removed.length === 0 && diff.modified.length === 0 &&
+      diff.unverifiedEntries.length === 0;
+    return diff;
+  }
+
+  /**
+   * 生成比较操作的结果
+   */
+  static createResult(sourcePath: string, comparePath: string, diff: ArchiveDiff): OperationResult {
+    const changedEntries = diff.added.length + diff.removed.length + diff.modified.length;
+    let message: string;
+    if (diff.identical) {
+      message = `No differences between ${sourcePath} and ${comparePath}`;
+    } else if (changedEntries === 0) {
+      message = `No differences found between ${sourcePath} and ${comparePath}, but ${diff.unverifiedEntries.length} entries could not be verified`;
+    } else {
+      message = `${sourcePath} and ${comparePath} differ: ${diff.added.length} added, ${diff.removed.length} removed, ${diff.modified.length} modified`;
+    }
+    return CompressionUtils.createSuccessResult(message, { sourcePath, comparePath, ...diff });
+  }
+
+  /**
+   * 比较两侧都存在的条目，类型不同时不再比较其他字段
+   */
+  private static async getChanges(
+    source: SnapshotEntry,
+    target: SnapshotEntry,
+    unverifiedEntries: string[]
+  ): Promise<EntryChange[]> {
+    if (source.type !== target.type) {
+      return ['type'];
+    }
+
+    // 链接只比较链接目标，链接条目的大小因格式而异（如ZIP记录链接目标的长度）
+    const changes: EntryChange[] = [];
+    const isLink = source.type === 'symlink' || source.type === 'hardlink';
+    if (!isLink && source.size !== target.size) {
+      changes.push('size');
+    } else if (source.type === 'file') {
+      const sourceChecksum = await ArchiveDiffer.getChecksum(source);
+      const targetChecksum = await ArchiveDiffer.getChecksum(target);
+      if (!sourceChecksum || !targetChecksum) {
+        unverifiedEntries.push(source.path);
+      } else if (sourceChecksum !== targetChecksum) {
+        changes.push('crc32');
+      }
+    }
+
+    // 没有记录权限的归档（如Windows创建的ZIP）不比较权限
+    if (source.mode !== undefined && target.mode !== undefined && source.mode !== target.mode) {
+      changes.push('mode');
+    }
+
+    if (source.linkTarget !== undefined && target.linkTarget !== undefined && source.linkTarget !== target.linkTarget) {
+      changes.push('linkTarget');
+    }
+
+    return changes;
+  }
+
+  /**
+   * 获取条目的CRC32，目录中的文件此时才读取计算
+   */
+  private static async getChecksum(entry: SnapshotEntry): Promise<string | undefined> {
+    if (!entry.crc32 && entry.absolutePath) {
+      let checksum = 0;
+      for await (const chunk of createReadStream(entry.absolutePath)) {
+        checksum = crc32(chunk, checksum);
+      }
+      entry.crc32 = CompressionUtils.formatCrc32(checksum);
+    }
+    return entry.crc32;
+  }
+
+  /**
+   * 获取快照中所有条目的上级目录
+   */
+  private static getImpliedDirectories(snapshot: EntrySnapshot): Set<string> {
+    const directories = new Set<string>();
+    for (const entryPath of snapshot.keys()) {
+      const segments = entryPath.split('/');
+      for (let i = 1; i < segments.length; i++) {
+        directories.add(segments.slice(0, i).join('/'));
+      }
+    }
+    return directories;
+  }
+
+  /**
+   * 将列表结果中的条目转换为比较用的条目
+   * AES加密条目（AE-2）记录的CRC32为0，不能用于比较
+   */
+  private static toComparedEntry(entry: ArchiveEntry): SnapshotEntry {
+    const compared: SnapshotEntry = {
+      path: GlobMatcher.normalizePath(entry.path),
+      type: entry.type,
+      size: entry.size
+    };
+    if (entry.type === 'file' && entry.crc32 && (!entry.encryption || entry.encryption === 'zipcrypto')) {
+      compared.crc32 = entry.crc32;
+    }
+    if (entry.mode !== undefined) {
+      compared.mode = entry.mode;
+    }
+    if (entry.linkTarget !== undefined) {
+      compared.linkTarget = entry.linkTarget;
+    }
+    return compared;
+  }
+
+  /**
+   * 去掉快照中仅供内部使用的字段
+   */
+  private static toResultEntry(entry: SnapshotEntry): ComparedEntry {
+    const { absolutePath: _absolutePath, ...result } = entry;
+    return result;
+  }
+}
@@ -0,0 +1,59 @@
+import { ArchiveEntry, ArchiveListing } from '../interfaces/compression-handler.js';
+import { ListOptions } from './compression-utils.js';
+import { GlobMatcher } from './glob-matcher.js';
+
+// 默认每页返回的条目数量
+export const DEFAULT_LIST_LIMIT = 1000;
+
+/**
+ * 归档条目列表构建器
+ * 逐个接收条目并按glob过滤和分页，只保留当前页的条目，避免大归档占用过多内存
+ */
+export class ArchiveListingBuilder {
+  private matcher: GlobMatcher;
+  private offset: number;
+  private limit: number;
+  private entries: ArchiveEntry[] = [];
+  private totalEntries = 0;
+  private matchedEntries = 0;
+
+  constructor(options: ListOptions = {}) {
+    this.matcher = new GlobMatcher(options.patterns || []);
+    this.offset = Math.max(0, options.offset || 0);
+    this.limit = Math.max(1, options.limit || DEFAULT_LIST_LIMIT);
+  }
+
+  /**
+   * 添加一个条目
+   * @returns 条目是否落在当前页内
+   */
+  add(entry: ArchiveEntry): boolean {
+    this.totalEntries++;
+
+    if (!this.matcher.isEmpty() && !this.matcher.matches(entry.path)) {
+      return false;
+    }
+
+    const index = this.matchedEntries++;
+    if (index < this.offset || index >= this.offset + this.limit) {
+      return false;
+    }
+
+    this.entries.push(entry);
+    return true;
+  }
+
+  /**
+   * 生成分页结果
+   */
+  build(): ArchiveListing {
+    return {
+      entries: this.entries,
+      totalEntries: this.totalEntries,
+      matchedEntries: this.matchedEntries,
+      offset: this.offset,
+      limit: this.limit,
+      hasMore: this.offset + this.entries.length < this.matchedEntries
+    };
+  }
+}
@@ -0,0 +1,196 @@
+import { OperationResult } from '../interfaces/compression-handler.js';
+import { CompressionUtils, DirectoryEntry, ModifyAction, ModifyOptions } from './compression-utils.js';
+import { EntryFilter } from './entry-filter.js';
+import { GlobMatcher } from './glob-matcher.js';
+
+/**
+ * 需要写入归档的新条目
+ */
+export interface PlannedEntry extends DirectoryEntry {
+  entryName: string;  // 归档内路径
+}
+
+/**
+ * 未修改的条目及原因
+ */
+export interface SkippedModification {
+  path: string;
+  reason: string;
+}
+
+/**
+ * 归档修改计划
+ * 处理器依次把归档中已有的条目交给keepEntry决定保留或移除，复制保留的条目后
+ * 再写入getNewEntries返回的条目；计划本身不读写归档
+ */
+export class ArchiveModificationPlan {
+  private action: ModifyAction;
+  private inputs = new Map<string, PlannedEntry>();
+  private filter: EntryFilter;
+  private timePrecision: number;
+  private existing = new Set<string>();
+  private replaced = new Set<string>();
+  private added: string[] = [];
+  private updated: string[] = [];
+  private deleted: string[] = [];
+  private skipped: SkippedModification[] = [];
+  private keptEntries = 0;
+
+  private constructor(action: ModifyAction, inputs: PlannedEntry[], patterns: string[], timePrecision: number) {
+    this.action = action;
+    this.filter = new EntryFilter(patterns);
+    this.timePrecision = timePrecision;
+    for (const input of inputs) {
+      this.inputs.set(input.entryName, input);
+    }
+  }
+
+  /**
+   * 根据修改选项创建计划，add/update时收集要加入的文件
+   * @param timePrecision 归档记录修改时间的精度（毫秒），如ZIP为2秒，用于判断条目是否比输入文件旧
+   */
+  static async create(options: ModifyOptions, timePrecision: number): Promise<ArchiveModificationPlan> {
+    if (options.action === 'delete') {
+      if (!options.patterns || options.patterns.length === 0) {
+        throw new Error('patterns is required to delete entries from an archive');
+      }
+      return new ArchiveModificationPlan('delete', [], options.patterns, timePrecision);
+    }
+
+    if (!options.inputPath) {
+      throw new Error(`inputPath is required to ${options.action} entries`);
+    }
+
+    const inputPath = await CompressionUtils.resolveSafePath(options.inputPath);
+    if (!await CompressionUtils.fileExists(inputPath)) {
+      throw new Error(`Input path does not exist: ${inputPath}`);
+    }
+
+    const prefix = ArchiveModificationPlan.normalizePrefix(options.entryPath);
+    const toEntryName = (relativePath: string) => prefix ? `${prefix}/${relativePath}` : relativePath;
+    // 硬链接按普通文件加入，zip无法保存硬链接
+    const { entries, skippedEntries } = await CompressionUtils.collectSourceEntries(inputPath, { symlinks: options.symlinks });
+
+    const inputs = entries.map(entry => ({ ...entry, entryName: toEntryName(entry.relativePath) }));
+    const plan = new ArchiveModificationPlan(options.action, inputs, [], timePrecision);
+    for (const skipped of skippedEntries) {
+      plan.skipped.push({ path: toEntryName(skipped.path), reason: skipped.reason });
+    }
+    return plan;
+  }
+
+  /**
+   * 检查归档中已有的条目
+   * @param mtime 条目记录的修改时间，用于update时比较新旧
+   * @returns 条目是否保留在新归档中
+   */
+  keepEntry(entryName: string, mtime?: Date): boolean {
+    const name = GlobMatcher.normalizePath(entryName);
+
+    if (this.action === 'delete') {
+      if (this.filter.matches(name)) {
+        this.deleted.push(entryName);
+        return false;
+      }
+      this.keptEntries++;
+      return true;
+    }
+
+    const input = this.inputs.get(name);
+    if (!input) {
+      this.keptEntries++;
+      return true;
+    }
+
+    // 同名条目重复出现时，已被替换的条目全部移除
+    if (this.replaced.has(name)) {
+      return false;
+    }
+    this.existing.add(name);
+
+    // 已存在的目录无需重新写入
+    if (input.type === 'directory') {
+      this.keptEntries++;
+      return true;
+    }
+
+    if (this.action === 'add') {
+      this.skipped.push({ path: entryName, reason: 'Entry already exists, use update to replace it' });
+      this.keptEntries++;
+      return true;
+    }
+
+    if (mtime && input.mtime.getTime() - mtime.getTime() < this.timePrecision) {
+      this.skipped.push({ path: entryName, reason: 'Entry is not older than the input file' });
+      this.keptEntries++;
+      return true;
+    }
+
+    this.replaced.add(name);
+    this.updated.push(entryName);
+    return false;
+  }
+
+  /**
+   * 获取需要写入的新条目：归档中不存在的条目和被替换的条目
+   * 必须在所有已有条目都经过keepEntry之后调用
+   */
+  getNewEntries(): PlannedEntry[] {
+    const entries: PlannedEntry[] = [];
+    this.added = [];
+    for (const [name, input] of this.inputs) {
+      if (this.replaced.has(name)) {
+        entries.push(input);
+      } else if (!this.existing.has(name)) {
+        entries.push(input);
+        this.added.push(input.entryName);
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * 是否需要重写归档
+   */
+  hasChanges(): boolean {
+    return this.added.length > 0 || this.updated.length > 0 || this.deleted.length > 0;
+  }
+
+  /**
+   * 生成修改结果
+   */
+  createResult(sourcePath: string, data: Record<string, any> = {}): OperationResult {
+    const message = this.hasChanges()
+      ? `Modified ${sourcePath}: ${this.added.length} added, ${this.updated.length} updated, ${this.deleted.length} deleted`
+      : `No changes made to ${sourcePath}`;
+
+    const result: Record<string, any> = {
+      sourcePath,
+      action: this.action,
+      added: this.added,
+      updated: this.updated,
+      deleted: this.deleted,
+      skipped: this.skipped,
+      totalEntries: this.keptEntries + this.added.length + this.updated.length,
+      ...data
+    };
+    if (this.action === 'delete') {
+      result.unmatchedPatterns = this.filter.getUnmatchedPatterns().include;
+    }
+    return CompressionUtils.createSuccessResult(message, result);
+  }
+
+  /**
+   * 规范化新条目所在的归档内目录，不允许绝对路径和'..'
+   */
+  private static normalizePrefix(entryPath?: string): string {
+    if (!entryPath) {
+      return '';
+    }
+    const prefix = GlobMatcher.normalizePath(entryPath).replace(/^\/+/, '');
+    if (prefix.split('/').includes('..')) {
+      throw new Error(`entryPath must stay inside the archive: ${entryPath}`);
+    }
+    return prefix;
+  }
+}
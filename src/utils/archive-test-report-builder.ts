@@ -0,0 +1,86 @@
+import { ArchiveEntryType, ArchiveTestReport, EntryTestResult, OperationResult } from '../interfaces/compression-handler.js';
+import { CompressionUtils } from './compression-utils.js';
+
+/**
+ * 归档完整性测试报告构建器
+ * 记录每个条目的测试结果，以及无法归属到具体条目的归档级错误
+ */
+export class ArchiveTestReportBuilder {
+  private entries: EntryTestResult[] = [];
+  private passedEntries = 0;
+  private failedEntries = 0;
+  private skippedEntries = 0;
+  private archiveErrors: string[] = [];
+
+  /**
+   * 记录通过校验的条目
+   * @param checksum 实际计算出的CRC32，目录等没有数据的条目为空
+   * @param digest 按TestOptions.checksum算法计算出的校验值
+   */
+  pass(path: string, type: ArchiveEntryType, size: number, checksum?: number, digest?: string): void {
+    const entry: EntryTestResult = { path, type, size, status: 'passed' };
+    if (checksum !== undefined) {
+      entry.crc32 = CompressionUtils.formatCrc32(checksum);
+    }
+    if (digest !== undefined) {
+      entry.checksum = digest;
+    }
+    this.entries.push(entry);
+    this.passedEntries++;
+  }
+
+  /**
+   * 记录校验失败的条目
+   */
+  fail(path: string, type: ArchiveEntryType, size: number, error: string): void {
+    this.entries.push({ path, type, size, status: 'failed', error });
+    this.failedEntries++;
+  }
+
+  /**
+   * 记录无法校验的条目
+   */
+  skip(path: string, type: ArchiveEntryType, size: number, reason: string): void {
+    this.entries.push({ path, type, size, status: 'skipped', error: reason });
+    this.skippedEntries++;
+  }
+
+  /**
+   * 记录归档级错误
+   */
+  addArchiveError(error: string): void {
+    this.archiveErrors.push(error);
+  }
+
+  /**
+   * 生成测试报告
+   */
+  build(): ArchiveTestReport {
+    return {
+      passed: this.failedEntries === 0 && this.archiveErrors.length === 0,
+      entries: this.entries,
+      totalEntries: this.entries.length,
+      passedEntries: this.passedEntries,
+      failedEntries: this.failedEntries,
+      skippedEntries: this.skippedEntries,
+      archiveErrors: this.archiveErrors
+    };
+  }
+
+  /**
+   * 生成操作结果，测试未通过时同样返回成功结果
+   */
+  createResult(sourcePath: string): OperationResult {
+    const report = this.build();
+    let message: string;
+    if (!report.passed) {
+      message = `Archive ${sourcePath} failed integrity test: ${report.failedEntries} of ${report.totalEntries} entries failed` +
+        (report.archiveErrors.length > 0 ? `, ${report.archiveErrors.length} archive error(s)` : '');
+    } else if (report.skippedEntries > 0) {
+      message = `Archive ${sourcePath} passed integrity test, ${report.skippedEntries} of ${report.totalEntries} entries could not be verified`;
+    } else {
+      message = `Archive ${sourcePath} passed integrity test (${report.totalEntries} entries)`;
+    }
+    return CompressionUtils.createSuccessResult(message, { sourcePath, ...report });
+  }
+}
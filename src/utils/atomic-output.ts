@@ -0,0 +1,90 @@
+import fs from 'fs';
+import { CompressionUtils } from './compression-utils.js';
+
+// 中断时需要删除临时输出的信号
+const CLEANUP_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM'];
+
+/**
+ * 原子输出
+ * 输出先写入目标位置所在目录中的临时文件（或临时目录），完成后再重命名到目标位置，
+ * 失败时删除临时输出；进程退出或被SIGINT/SIGTERM中断时同步删除尚未完成的临时输出，
+ * 因此目标位置不会出现不完整的文件
+ */
+export class AtomicOutput {
+  private static pendingPaths = new Set<string>();
+  private static cleanupInstalled = false;
+
+  /**
+   * 写入临时文件，成功后重命名为目标文件，已存在的目标文件被替换
+   * @param write 向临时文件写入内容的函数
+   */
+  static async writeFile<T>(targetPath: string, write: (tempPath: string) => Promise<T>): Promise<T> {
+    const tempPath = this.createTempPath(targetPath);
+    try {
+      const result = await write(tempPath);
+      await fs.promises.rename(tempPath, targetPath);
+      return result;
+    } finally {
+      await this.release(tempPath);
+    }
+  }
+
+  /**
+   * 生成与目标文件位于同一目录的临时文件路径，并在完成前登记为待清理
+   */
+  static createTempPath(targetPath: string): string {
+    const tempPath = CompressionUtils.getTempPath(targetPath);
+    this.track(tempPath);
+    return tempPath;
+  }
+
+  /**
+   * 登记需要在进程退出时删除的临时文件或目录
+   */
+  static track(tempPath: string): void {
+    this.pendingPaths.add(tempPath);
+    if (!this.cleanupInstalled) {
+      this.installCleanup();
+    }
+  }
+
+  /**
+   * 删除临时文件或目录（已被重命名时不做任何操作），并取消登记
+   */
+  static async release(tempPath: string): Promise<void> {
+    await fs.promises.rm(tempPath, { recursive: true, force: true });
+    this.pendingPaths.delete(tempPath);
+  }
+
+  /**
+   * 注册进程退出和中断时的清理
+   * 中断信号没有其他监听器时，清理后重新发送信号，保持默认的退出行为
+   */
+  private static installCleanup(): void {
+    this.cleanupInstalled = true;
+    process.on('exit', () => this.removePendingSync());
+
+    for (const signal of CLEANUP_SIGNALS) {
+      process.once(signal, () => {
+        this.removePendingSync();
+        if (process.listenerCount(signal) === 0) {
+          process.kill(process.pid, signal);
+        }
+      });
+    }
+  }
+
+  /**
+   * 同步删除所有未完成的临时输出
+   */
+  private static removePendingSync(): void {
+    for (const tempPath of this.pendingPaths) {
+      try {
+        fs.rmSync(tempPath, { recursive: true, force: true });
+      } catch {
+        // 退出时尽力清理，忽略错误
+      }
+    }
+    this.pendingPaths.clear();
+  }
+}
@@ -0,0 +1,346 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { EntryTestResult } from '../interfaces/compression-handler.js';
+import { AtomicOutput } from './atomic-output.js';
+import { CompressionUtils } from './compression-utils.js';
+
+/**
+ * 清单支持的校验算法（Node.js crypto中的名称）
+ */
+export type ChecksumAlgorithm = 'sha256' | 'sha512' | 'blake2b512';
+
+// 各算法对应的清单文件扩展名
+const MANIFEST_EXTENSIONS: Record<ChecksumAlgorithm, string> = {
+  sha256: '.sha256',
+  sha512: '.sha512',
+  blake2b512: '.blake2b'
+};
+
+// 清单格式与sha256sum等工具兼容：归档为普通的校验行，条目写在以#开头的注释行中，
+// 因此sha256sum -c只校验归档本身，条目由verify操作校验
+const HEADER_LINE = /^# (\S+) manifest\b/;
+const CHECKSUM_LINE = /^([0-9a-f]+) [ *](.+)$/;
+const ENTRY_LINE = /^# entry ([0-9a-f]+) [ *](.+)$/;
+
+/**
+ * 清单中的一项校验值
+ */
+export interface ManifestEntry {
+  path: string;
+  checksum: string;
+}
+
+/**
+ * 校验清单：归档文件本身和每个文件条目（路径为归档中的条目名，即相对于解压目录的路径）
+ */
+export interface ChecksumManifestData {
+  algorithm: ChecksumAlgorithm;
+  archive: ManifestEntry;
+  entries: ManifestEntry[];
+}
+
+/**
+ * 校验失败的条目
+ */
+export interface ChecksumMismatch {
+  path: string;
+  expected: string;
+  actual?: string;  // 无法计算校验值时为空
+  error?: string;   // 无法计算校验值的原因
+}
+
+/**
+ * 清单校验结果
+ */
+export interface ManifestVerification {
+  verified: boolean;
+  algorithm: ChecksumAlgorithm;
+  checkedEntries: number;
+  passedEntries: number;
+  failed: ChecksumMismatch[];
+  extraFiles: string[];  // 目录或归档中存在但清单中没有的文件，不影响校验结果
+}
+
+/**
+ * 单个条目的校验值计算
+ */
+export interface EntryHash {
+  update(chunk: Buffer): void;
+  end(): string;
+}
+
+/**
+ * 条目校验值收集器
+ * 压缩或测试时随条目数据流计算各文件条目的校验值，不需要再读取一遍源文件或归档
+ */
+export class EntryChecksums {
+  private checksums = new Map<string, string>();
+
+  constructor(readonly algorithm: ChecksumAlgorithm) {}
+
+  /**
+   * 开始计算一个文件条目，条目数据全部读取后调用end记录校验值
+   */
+  begin(path: string): EntryHash {
+    const hash = createHash(this.algorithm);
+    return {
+      update: (chunk) => {
+        hash.update(chunk);
+      },
+      end: () => {
+        const checksum = hash.digest('hex');
+        this.checksums.set(path, checksum);
+        return checksum;
+      }
+    };
+  }
+
+  /**
+   * 记录已计算出的校验值
+   */
+  set(path: string, checksum: string): void {
+    this.checksums.set(path, checksum);
+  }
+
+  /**
+   * 记录内容与已有条目相同的条目，如tar中指向先前条目的硬链接
+   */
+  addCopy(path: string, sourcePath: string): void {
+    const checksum = this.checksums.get(sourcePath);
+    if (checksum !== undefined) {
+      this.checksums.set(path, checksum);
+    }
+  }
+
+  get(path: string): string | undefined {
+    return this.checksums.get(path);
+  }
+
+  /**
+   * 获取所有条目的校验值，同名条目只保留最后写入的一个
+   */
+  getEntries(): ManifestEntry[] {
+    return [...this.checksums].map(([path, checksum]) => ({ path, checksum }));
+  }
+}
+
+/**
+ * 校验清单的生成、读写和校验
+ */
+export class ChecksumManifest {
+  /**
+   * 获取归档对应的清单文件路径（如archive.zip.sha256）
+   */
+  static getManifestPath(archivePath: string, algorithm: ChecksumAlgorithm): string {
+    return `${archivePath}${MANIFEST_EXTENSIONS[algorithm]}`;
+  }
+
+  /**
+   * 查找归档旁已存在的清单文件
+   */
+  static async findManifest(archivePath: string): Promise<string | undefined> {
+    for (const algorithm of Object.keys(MANIFEST_EXTENSIONS) as ChecksumAlgorithm[]) {
+      const manifestPath = this.getManifestPath(archivePath, algorithm);
+      if (await CompressionUtils.isFile(manifestPath)) {
+        return manifestPath;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 流式计算文件的校验值
+   */
+  static async hashFile(filePath: string, algorithm: ChecksumAlgorithm): Promise<string> {
+    const hash = createHash(algorithm);
+    for await (const chunk of fs.createReadStream(filePath)) {
+      hash.update(chunk);
+    }
+    return hash.digest('hex');
+  }
+
+  /**
+   * 为压缩结果生成清单：计算归档文件的校验值，条目的校验值由处理器在写入归档时计算
+   */
+  static async create(
+    archivePath: string,
+    algorithm: ChecksumAlgorithm,
+    entries: ManifestEntry[]
+  ): Promise<ChecksumManifestData> {
+    return {
+      algorithm,
+      archive: { path: path.basename(archivePath), checksum: await this.hashFile(archivePath, algorithm) },
+      entries
+    };
+  }
+
+  /**
+   * 转换为清单文件内容
+   */
+  static format(manifest: ChecksumManifestData): string {
+    const lines = [
+      `# ${manifest.algorithm} manifest: the first line checks the archive, "# entry" lines check its entries`,
+      `${manifest.archive.checksum}  ${manifest.archive.path}`,
+      ...manifest.entries.map(entry => `# entry ${entry.checksum}  ${entry.path}`)
+    ];
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * 解析清单文件内容
+   * 没有头部注释时（如sha256sum生成的文件）根据清单文件扩展名确定算法
+   */
+  static parse(content: string, manifestPath: string): ChecksumManifestData {
+    let algorithm: ChecksumAlgorithm | undefined;
+    let archive: ManifestEntry | undefined;
+    const entries: ManifestEntry[] = [];
+
+    for (const line of content.split(/\r?\n/)) {
+      const header = line.match(HEADER_LINE);
+      const entry = line.match(ENTRY_LINE);
+      const checksum = line.match(CHECKSUM_LINE);
+      if (header && header[1] in MANIFEST_EXTENSIONS) {
+        algorithm = header[1] as ChecksumAlgorithm;
+      } else if (entry) {
+        entries.push({ path: entry[2], checksum: entry[1] });
+      } else if (checksum && !archive) {
+        archive = { path: checksum[2], checksum: checksum[1] };
+      }
+    }
+
+    algorithm = algorithm || (Object.keys(MANIFEST_EXTENSIONS) as ChecksumAlgorithm[])
+      .find(name => manifestPath.toLowerCase().endsWith(MANIFEST_EXTENSIONS[name]));
+    if (!algorithm) {
+      throw new Error(`Cannot determine the checksum algorithm of manifest: ${manifestPath}`);
+    }
+    if (!archive && entries.length === 0) {
+      throw new Error(`Manifest contains no checksums: ${manifestPath}`);
+    }
+
+    return {
+      algorithm,
+      archive: archive || { path: '', checksum: '' },
+      entries
+    };
+  }
+
+  /**
+   * 读取清单文件
+   */
+  static async read(manifestPath: string): Promise<ChecksumManifestData> {
+    return this.parse(await fs.promises.readFile(manifestPath, 'utf8'), manifestPath);
+  }
+
+  /**
+   * 写入清单文件，先写入临时文件再替换目标文件
+   */
+  static async write(manifestPath: string, manifest: ChecksumManifestData): Promise<void> {
+    await AtomicOutput.writeFile(manifestPath, tempPath => fs.promises.writeFile(tempPath, this.format(manifest), 'utf8'));
+  }
+
+  /**
+   * 校验归档文件本身及其中的条目，归档可能已被重命名，因此不比较归档文件名
+   * @param testedEntries 测试归档时按清单算法计算出校验值的条目，未提供时只校验归档文件本身
+   */
+  static async verifyArchive(
+    manifest: ChecksumManifestData,
+    archivePath: string,
+    testedEntries?: EntryTestResult[]
+  ): Promise<ManifestVerification> {
+    const failed: ChecksumMismatch[] = [];
+    let checkedEntries = 0;
+
+    if (manifest.archive.checksum) {
+      checkedEntries++;
+      const actual = await this.hashFile(archivePath, manifest.algorithm);
+      if (actual !== manifest.archive.checksum) {
+        failed.push({ path: manifest.archive.path, expected: manifest.archive.checksum, actual });
+      }
+    }
+
+    const extraFiles: string[] = [];
+    if (testedEntries) {
+      // 硬链接条目与其指向的文件内容相同，测试时同样给出校验值
+      const files = testedEntries.filter(entry => entry.type === 'file' || entry.checksum);
+      const tested = new Map(files.map(entry => [entry.path, entry]));
+      // 单文件格式不一定保存原文件名，只有一个条目时直接比较
+      const single = manifest.entries.length === 1 && files.length === 1 ? files[0] : undefined;
+
+      for (const entry of manifest.entries) {
+        checkedEntries++;
+        const result = tested.get(entry.path) || single;
+        if (!result) {
+          failed.push({ path: entry.path, expected: entry.checksum, error: 'Entry not found in the archive' });
+        } else if (result.status !== 'passed' || !result.checksum) {
+          failed.push({ path: entry.path, expected: entry.checksum, error: result.error || 'Entry could not be read' });
+        } else if (result.checksum !== entry.checksum) {
+          failed.push({ path: entry.path, expected: entry.checksum, actual: result.checksum });
+        }
+      }
+
+      const listed = new Set(manifest.entries.map(entry => entry.path));
+      extraFiles.push(...files.filter(entry => !listed.has(entry.path) && entry !== single).map(entry => entry.path));
+    } else if (!manifest.archive.checksum) {
+      throw new Error('Manifest has no checksum for the archive file, verify the extracted directory instead');
+    }
+
+    return {
+      verified: failed.length === 0,
+      algorithm: manifest.algorithm,
+      checkedEntries,
+      passedEntries: checkedEntries - failed.length,
+      failed,
+      extraFiles
+    };
+  }
+
+  /**
+   * 校验解压后的目录，清单中的条目路径相对于该目录
+   * 不跟随符号链接：条目本身或其上级目录为符号链接时视为校验失败，避免读取目录之外的文件
+   */
+  static async verifyDirectory(manifest: ChecksumManifestData, dirPath: string): Promise<ManifestVerification> {
+    if (manifest.entries.length === 0) {
+      throw new Error('Manifest has no entry checksums, verify the archive file instead');
+    }
+
+    const failed: ChecksumMismatch[] = [];
+    const listed = new Set<string>();
+    const realDir = await fs.promises.realpath(dirPath);
+
+    for (const entry of manifest.entries) {
+      listed.add(entry.path);
+      const filePath = path.join(realDir, ...entry.path.split('/'));
+      if (!CompressionUtils.isPathInside(filePath, realDir)) {
+        throw new Error(`Manifest entry is outside the directory: ${entry.path}`);
+      }
+      const stats = await fs.promises.lstat(filePath).catch(() => null);
+      if (!stats || !stats.isFile()) {
+        const error = !stats ? 'File does not exist' : stats.isSymbolicLink() ? 'File is a symbolic link' : 'Not a regular file';
+        failed.push({ path: entry.path, expected: entry.checksum, error });
+        continue;
+      }
+      if (await fs.promises.realpath(filePath) !== filePath) {
+        failed.push({ path: entry.path, expected: entry.checksum, error: 'Path contains a symbolic link' });
+        continue;
+      }
+      const actual = await this.hashFile(filePath, manifest.algorithm);
+      if (actual !== entry.checksum) {
+        failed.push({ path: entry.path, expected: entry.checksum, actual });
+      }
+    }
+
+    const extraFiles = (await CompressionUtils.listDirectoryEntries(realDir))
+      .filter(entry => entry.type === 'file' && !listed.has(entry.relativePath))
+      .map(entry => entry.relativePath);
+
+    return {
+      verified: failed.length === 0,
+      algorithm: manifest.algorithm,
+      checkedEntries: manifest.entries.length,
+      passedEntries: manifest.entries.length - failed.length,
+      failed,
+      extraFiles
+    };
+  }
+}
@@ -1,12 +1,24 @@
 import fs from 'fs';
 import path from 'path';
 import { promisify } from 'util';
+import { ChecksumAlgorithm } from './checksum-manifest.js';
+import { SkippedEntry } from './extraction-guard.js';
+import { SourceFilter } from './source-filter.js';
 
 // 异步文件操作
 const fsAccess = promisify(fs.access);
 const fsStat = promisify(fs.stat);
 const fsMkdir = promisify(fs.mkdir);
 
+// 配置允许访问的根目录的环境变量，多个目录使用系统路径分隔符（Unix为':'，Windows为';'）分隔
+export const ALLOWED_ROOTS_ENV = 'COMPRESS_MCP_ALLOWED_ROOTS';
+
+// 解析符号链接时允许的最大跳转次数，防止链接循环
+const MAX_SYMLINK_HOPS = 40;
+
+// 由tar扩展名和压缩扩展名组成的复合扩展名
+const COMPOUND_EXTENSIONS = ['.tar.gz', '.tar.zst', '.tar.xz', '.tar.bz2'];
+
 // MCP返回类型
 export interface MCPResult {
   isError: boolean;
@@ -31,31 +43,240 @@ export interface ProgressInfo {
 
 export type ProgressCallback = (progress: ProgressInfo) => void;
 
+// fastmcp工具上下文中的进度上报函数
+export type ToolProgressReporter = (progress: { progress: number, total: number, message?: string }) => void;
+
+// 输出文件或解压条目已存在时的处理策略
+export const CONFLICT_POLICIES = ['error', 'overwrite', 'skip', 'rename', 'keep-newer'] as const;
+export type ConflictPolicy = typeof CONFLICT_POLICIES[number];
+export const DEFAULT_CONFLICT_POLICY: ConflictPolicy = 'error';
+
+// 压缩时源文件夹中符号链接的处理策略：保存为链接条目、跟随链接打包目标内容或跳过
+export const SYMLINK_POLICIES = ['preserve', 'follow', 'skip'] as const;
+export type SymlinkPolicy = typeof SYMLINK_POLICIES[number];
+export const DEFAULT_SYMLINK_POLICY: SymlinkPolicy = 'preserve';
+
 // 压缩选项
 export interface CompressionOptions {
   compressionLevel?: number;
+  onConflict?: ConflictPolicy;              // 输出文件已存在时的处理策略，默认error
+  password?: string;                        // 设置后创建加密的ZIP归档
+  encryptionMethod?: 'aes256' | 'zipcrypto';  // 加密方式，默认aes256
+  symlinks?: SymlinkPolicy;                 // 源文件夹中符号链接的处理策略（tar和zip格式），默认preserve
+  include?: string[];                       // 只打包源文件夹中匹配这些glob模式的文件
+  exclude?: string[];                       // 不打包源文件夹中匹配这些glob模式的文件和文件夹
+  ignoreFiles?: string[];                   // 按.gitignore语法读取源文件夹中的这些忽略文件
+  brotliQuality?: number;                   // Brotli压缩质量(0-11)，未指定时使用compressionLevel
+  brotliLgwin?: number;                     // Brotli滑动窗口大小的以2为底的对数(10-24)
+  brotliMode?: 'generic' | 'text' | 'font'; // Brotli内容类型提示
+  zstdLevel?: number;                       // Zstandard压缩级别(1-22)，20以上需要更多内存
+  zstdLong?: boolean;                       // 启用Zstandard长距离匹配(128 MiB窗口)
+  zstdThreads?: number;                     // Zstandard压缩线程数，0表示按CPU核心数
+  checksum?: ChecksumAlgorithm;             // 写入归档时计算各文件条目的校验值，在结果的entryChecksums中返回
   outputDirectory?: string;
   outputFileName?: string;
   [key: string]: any;
 }
 
+// 解压限制，防止解压炸弹占满磁盘
+export interface DecompressionLimits {
+  maxTotalSize?: number;       // 解压输出的最大总字节数
+  maxExpansionRatio?: number;  // 解压输出与压缩文件大小的最大比值
+  maxEntries?: number;         // 最大条目数量
+  maxDepth?: number;           // 条目路径的最大目录层级
+}
+
 // 解压选项
-export interface DecompressionOptions {
+export interface DecompressionOptions extends DecompressionLimits {
   stripComponents?: number;
+  include?: string[];   // 只解压匹配这些glob模式的条目（按归档内路径匹配）
+  exclude?: string[];   // 不解压匹配这些glob模式的条目
+  password?: string;    // 加密ZIP条目的密码
+  onConflict?: ConflictPolicy;  // 解压的文件已存在时的处理策略，默认error
+  preserveOwnership?: boolean;  // 恢复条目记录的uid/gid，默认只在以root运行时恢复
   outputDirectory?: string;
   [key: string]: any;
 }
 
-// 列表选项
-export interface ListOptions {
+// 列表选项，解压限制用于需要完整解压才能得到大小的单文件格式
+export interface ListOptions extends DecompressionLimits {
   previewLength?: number;
+  patterns?: string[];
+  offset?: number;
+  limit?: number;
+  [key: string]: any;
+}
+
+// 读取条目内容时使用的编码，auto会自动检测文本编码，二进制内容返回base64
+export type EntryEncoding = 'auto' | 'utf8' | 'utf16le' | 'utf16be' | 'latin1' | 'base64';
+
+// 读取单个条目内容的选项
+export interface ReadEntryOptions {
+  entryPath?: string;       // 归档内的条目路径（gzip只有一个条目，可省略）
+  encoding?: EntryEncoding;
+  byteOffset?: number;      // 起始字节偏移（从0开始）
+  byteLength?: number;      // 读取的字节数
+  startLine?: number;       // 起始行（从1开始，包含），不能与字节范围同时使用
+  endLine?: number;         // 结束行（包含）
+  maxBytes?: number;        // 返回内容的最大字节数
+  password?: string;        // 加密ZIP条目的密码
+  [key: string]: any;
+}
+
+// 完整性测试选项
+export interface TestOptions {
+  password?: string;        // 加密ZIP条目的密码，未提供时跳过加密条目
+  checksum?: ChecksumAlgorithm;  // 同时按该算法计算每个文件条目的校验值，用于校验清单
+  [key: string]: any;
+}
+
+// 修改已有归档的方式：add只添加归档中不存在的条目，update同时替换比输入文件旧的条目，delete删除匹配的条目
+export type ModifyAction = 'add' | 'update' | 'delete';
+
+// 修改归档选项
+export interface ModifyOptions {
+  action: ModifyAction;
+  inputPath?: string;       // add/update：要加入归档的文件或文件夹（文件夹加入其中的内容）
+  entryPath?: string;       // add/update：新条目在归档内所在的目录，默认为根目录
+  patterns?: string[];      // delete：要删除的条目的glob模式，匹配目录时删除其下所有条目
+  compressionLevel?: number;
+  password?: string;        // 设置后加密新加入的ZIP条目，已有条目保持原样
+  encryptionMethod?: 'aes256' | 'zipcrypto';
+  symlinks?: SymlinkPolicy;  // add/update：输入文件夹中符号链接的处理策略，默认preserve
   [key: string]: any;
 }
 
+// 目录遍历得到的条目
+export interface DirectoryEntry {
+  absolutePath: string;
+  relativePath: string;
+  type: 'file' | 'directory' | 'symlink' | 'hardlink';
+  size: number;         // 链接条目为0
+  mode: number;
+  mtime: Date;
+  uid: number;
+  gid: number;
+  linkTarget?: string;  // 符号链接的目标，或硬链接指向的先前条目的相对路径
+}
+
+// 目录遍历选项
+export interface DirectoryWalkOptions {
+  symlinks?: SymlinkPolicy;  // 默认preserve
+  hardlinks?: boolean;       // 将同一文件的后续硬链接记录为hardlink条目，否则作为普通文件
+  filter?: SourceFilter;     // 排除不需要打包的条目并统计被排除的文件
+}
+
+/**
+ * 压缩源的所有条目及统计信息
+ */
+export interface SourceEntries {
+  entries: DirectoryEntry[];
+  totalSize: number;
+  fileCount: number;
+  directoryCount: number;
+  linkCount: number;
+  // 源文件或文件夹（含其中所有条目）最新的修改时间
+  latestMtime: Date;
+  // 按符号链接策略跳过的链接、链接循环和FIFO、套接字等特殊文件
+  skippedEntries: SkippedEntry[];
+}
+
 /**
  * 压缩工具通用功能
  */
 export class CompressionUtils {
+  // 允许访问的根目录（真实路径），为空时不限制
+  private static allowedRoots: string[] = [];
+
+  /**
+   * 设置允许访问的根目录
+   * 根目录必须存在，统一保存为解析符号链接后的真实路径
+   */
+  static setAllowedRoots(roots: string[]): void {
+    this.allowedRoots = roots.map(root => {
+      try {
+        return fs.realpathSync(path.resolve(root));
+      } catch (error: any) {
+        throw new Error(`Allowed root directory is not accessible: ${root} (${error.message})`);
+      }
+    });
+  }
+
+  /**
+   * 获取允许访问的根目录
+   */
+  static getAllowedRoots(): string[] {
+    return [...this.allowedRoots];
+  }
+
+  /**
+   * 解析工具和处理器使用的路径，并限制在允许访问的根目录内
+   * 相对路径基于第一个根目录（未配置时基于当前工作目录）解析；
+   * 配置了根目录时按真实路径检查，防止通过符号链接访问根目录之外的位置
+   * @returns 绝对路径（配置了根目录时为真实路径）
+   */
+  static async resolveSafePath(inputPath: string): Promise<string> {
+    const baseDir = this.allowedRoots[0] || process.cwd();
+    const absolutePath = path.resolve(baseDir, inputPath);
+
+    if (this.allowedRoots.length === 0) {
+      return absolutePath;
+    }
+
+    const realPath = await this.resolveRealPath(absolutePath);
+    if (!this.allowedRoots.some(root => this.isPathInside(realPath, root))) {
+      throw new Error(`Access denied: ${inputPath} is outside the allowed root directories`);
+    }
+
+    return realPath;
+  }
+
+  /**
+   * 判断路径是否位于指定目录内（包括目录本身）
+   */
+  static isPathInside(targetPath: string, rootDir: string): boolean {
+    const relative = path.relative(rootDir, targetPath);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+  }
+
+  /**
+   * 解析路径的真实位置
+   * 路径不存在时（如待创建的输出文件）解析最近的已存在上级目录，再拼接剩余部分；
+   * 悬空的符号链接按其目标继续解析
+   */
+  private static async resolveRealPath(absolutePath: string): Promise<string> {
+    const missingSegments: string[] = [];
+    let current = absolutePath;
+    let hops = 0;
+
+    for (;;) {
+      try {
+        const realPath = await fs.promises.realpath(current);
+        return path.join(realPath, ...missingSegments);
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') {
+          throw error;
+        }
+      }
+
+      const linkTarget = await fs.promises.readlink(current).catch(() => null);
+      if (linkTarget !== null) {
+        if (++hops > MAX_SYMLINK_HOPS) {
+          throw new Error(`Too many levels of symbolic links: ${absolutePath}`);
+        }
+        current = path.resolve(path.dirname(current), linkTarget);
+        continue;
+      }
+
+      const parent = path.dirname(current);
+      if (parent === current) {
+        return path.join(current, ...missingSegments);
+      }
+      missingSegments.unshift(path.basename(current));
+      current = parent;
+    }
+  }
+
   /**
    * 规范化文件路径，防止路径遍历攻击
    */
@@ -132,6 +353,207 @@ export class CompressionUtils {
     }
   }
 
+  /**
+   * 递归列出目录下的所有文件、子目录（包括空目录）和链接
+   * 相对路径统一使用'/'分隔，便于直接作为归档条目名；设置filter时不包含被排除的条目
+   * @param skipped 记录被跳过的条目及原因
+   */
+  static async listDirectoryEntries(
+    rootDir: string,
+    options: DirectoryWalkOptions = {},
+    skipped: SkippedEntry[] = []
+  ): Promise<DirectoryEntry[]> {
+    const symlinks = options.symlinks || DEFAULT_SYMLINK_POLICY;
+    const filter = options.filter;
+    const result: DirectoryEntry[] = [];
+    // 有多个硬链接的文件（设备号:inode）首次出现时的相对路径
+    const linkedFiles = new Map<string, string>();
+
+    // ancestors为当前目录及其所有上级目录的设备号:inode，跟随链接遇到其中之一即为循环
+    const walk = async (dir: string, prefix: string, ancestors: Set<string>): Promise<void> => {
+      await filter?.loadIgnoreFiles(dir, prefix);
+      const dirents = await fs.promises.readdir(dir, { withFileTypes: true });
+      for (const dirent of dirents) {
+        const absolutePath = path.join(dir, dirent.name);
+        const relativePath = prefix ? `${prefix}/${dirent.name}` : dirent.name;
+        let stats = await fs.promises.lstat(absolutePath);
+
+        // 按链接本身过滤，被排除的符号链接不跟随
+        if (filter && !filter.accepts(relativePath, stats.isDirectory())) {
+          await filter.recordExcluded(absolutePath, relativePath, stats);
+          continue;
+        }
+
+        if (stats.isSymbolicLink()) {
+          if (symlinks === 'skip') {
+            skipped.push({ path: relativePath, reason: 'symlink skipped by the symlinks policy' });
+            continue;
+          }
+          if (symlinks === 'preserve') {
+            result.push({
+              ...CompressionUtils.toDirectoryEntry(absolutePath, relativePath, stats),
+              type: 'symlink',
+              size: 0,
+              linkTarget: await fs.promises.readlink(absolutePath)
+            });
+            continue;
+          }
+
+          const reason = await CompressionUtils.checkFollowedLink(absolutePath);
+          if (reason) {
+            skipped.push({ path: relativePath, reason });
+            continue;
+          }
+          stats = await fsStat(absolutePath);
+        }
+
+        const fileId = `${stats.dev}:${stats.ino}`;
+        if (stats.isDirectory()) {
+          if (ancestors.has(fileId)) {
+            skipped.push({ path: relativePath, reason: 'symlink loop: target is a parent directory' });
+            continue;
+          }
+          result.push(CompressionUtils.toDirectoryEntry(absolutePath, relativePath, stats));
+          const entryCount = result.length;
+          await walk(absolutePath, relativePath, new Set(ancestors).add(fileId));
+          if (filter && result.length === entryCount && !filter.keepsDirectory(relativePath)) {
+            result.pop();
+            filter.recordExcludedDirectory(relativePath);
+          }
+          continue;
+        }
+
+        if (!stats.isFile()) {
+          skipped.push({ path: relativePath, reason: `unsupported file type: ${CompressionUtils.describeFileType(stats)}` });
+          continue;
+        }
+
+        const firstLink = options.hardlinks && stats.nlink > 1 ? linkedFiles.get(fileId) : undefined;
+        if (firstLink !== undefined) {
+          result.push({
+            ...CompressionUtils.toDirectoryEntry(absolutePath, relativePath, stats),
+            type: 'hardlink',
+            size: 0,
+            linkTarget: firstLink
+          });
+          continue;
+        }
+        if (options.hardlinks && stats.nlink > 1) {
+          linkedFiles.set(fileId, relativePath);
+        }
+        result.push(CompressionUtils.toDirectoryEntry(absolutePath, relativePath, stats));
+      }
+    };
+
+    const rootStats = await fsStat(rootDir);
+    await walk(rootDir, '', new Set([`${rootStats.dev}:${rootStats.ino}`]));
+    return result;
+  }
+
+  /**
+   * 遍历一次压缩源，收集需要打包的条目并同时统计总大小、条目数和最新的修改时间
+   * 源为单个文件时只包含该文件，条目名为文件名
+   */
+  static async collectSourceEntries(sourcePath: string, options: DirectoryWalkOptions = {}): Promise<SourceEntries> {
+    const stats = await fsStat(sourcePath);
+    const skippedEntries: SkippedEntry[] = [];
+    const entries = stats.isDirectory()
+      ? await this.listDirectoryEntries(sourcePath, options, skippedEntries)
+      : [this.toDirectoryEntry(sourcePath, path.basename(sourcePath), stats)];
+
+    const result: SourceEntries = {
+      entries,
+      totalSize: 0,
+      fileCount: 0,
+      directoryCount: 0,
+      linkCount: 0,
+      latestMtime: stats.mtime,
+      skippedEntries
+    };
+    for (const entry of entries) {
+      result.totalSize += entry.size;
+      if (entry.type === 'file') {
+        result.fileCount++;
+      } else if (entry.type === 'directory') {
+        result.directoryCount++;
+      } else {
+        result.linkCount++;
+      }
+      if (entry.mtime > result.latestMtime) {
+        result.latestMtime = entry.mtime;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 根据文件状态创建目录条目
+   */
+  private static toDirectoryEntry(absolutePath: string, relativePath: string, stats: fs.Stats): DirectoryEntry {
+    const isDirectory = stats.isDirectory();
+    return {
+      absolutePath,
+      relativePath,
+      type: isDirectory ? 'directory' : 'file',
+      size: isDirectory ? 0 : stats.size,
+      mode: stats.mode,
+      mtime: stats.mtime,
+      uid: stats.uid,
+      gid: stats.gid
+    };
+  }
+
+  /**
+   * 检查要跟随的符号链接：悬空的链接和指向允许访问的根目录之外的链接不跟随
+   * @returns 不跟随的原因，可以跟随时返回null
+   */
+  private static async checkFollowedLink(linkPath: string): Promise<string | null> {
+    const realPath = await fs.promises.realpath(linkPath).catch(() => null);
+    if (!realPath) {
+      return 'symlink target does not exist';
+    }
+    if (this.allowedRoots.length > 0 && !this.allowedRoots.some(root => this.isPathInside(realPath, root))) {
+      return 'symlink target is outside the allowed root directories';
+    }
+    return null;
+  }
+
+  /**
+   * 获取特殊文件的类型名称
+   */
+  private static describeFileType(stats: fs.Stats): string {
+    if (stats.isFIFO()) {
+      return 'fifo';
+    }
+    if (stats.isSocket()) {
+      return 'socket';
+    }
+    if (stats.isCharacterDevice()) {
+      return 'character device';
+    }
+    if (stats.isBlockDevice()) {
+      return 'block device';
+    }
+    return 'unknown';
+  }
+
+  /**
+   * 生成与目标文件位于同一目录的临时文件路径，写入完成后通过replaceFile替换目标文件
+   */
+  static getTempPath(targetPath: string): string {
+    const suffix = `${process.pid}-${Math.random().toString(36).slice(2, 10)}`;
+    return path.join(path.dirname(targetPath), `.${path.basename(targetPath)}.${suffix}.tmp`);
+  }
+
+  /**
+   * 用临时文件替换目标文件，保留目标文件原有的权限
+   */
+  static async replaceFile(tempPath: string, targetPath: string): Promise<void> {
+    const stats = await fsStat(targetPath);
+    await fs.promises.chmod(tempPath, stats.mode & 0o7777);
+    await fs.promises.rename(tempPath, targetPath);
+  }
+
   /**
    * 解析输出路径
    */
@@ -194,14 +616,15 @@ export class CompressionUtils {
   }
 
   /**
-   * 获取文件扩展名（支持复合扩展名如.tar.gz）
+   * 获取文件扩展名（支持复合扩展名如.tar.gz、.tar.xz）
    */
   static getFileExtension(filePath: string): string {
     const basename = path.basename(filePath);
     
-    // 检查特殊的复合扩展名
-    if (basename.endsWith('.tar.gz')) {
-      return '.tar.gz';
+    // 检查复合扩展名，返回文件名中原有的大小写形式
+    const compoundExtension = COMPOUND_EXTENSIONS.find(ext => basename.toLowerCase().endsWith(ext));
+    if (compoundExtension) {
+      return basename.slice(-compoundExtension.length);
     }
     
     return path.extname(filePath);
@@ -220,6 +643,26 @@ export class CompressionUtils {
     return filePath;
   }
 
+  /**
+   * 去除归档条目路径开头的若干层目录
+   * @returns 去除后的路径，若条目被完全去除则返回null
+   */
+  static stripPathComponents(entryPath: string, count: number): string | null {
+    const segments = entryPath.split(/[\\/]+/).filter(segment => segment.length > 0);
+    if (count <= 0) {
+      return segments.join('/') || null;
+    }
+    const remaining = segments.slice(count);
+    return remaining.length > 0 ? remaining.join('/') : null;
+  }
+
+  /**
+   * 将CRC32数值格式化为8位大写十六进制字符串
+   */
+  static formatCrc32(crc: number): string {
+    return (crc >>> 0).toString(16).toUpperCase().padStart(8, '0');
+  }
+
   /**
    * 格式化进度信息
    */
@@ -246,6 +689,22 @@ export class CompressionUtils {
     return progress;
   }
 
+  /**
+   * 将处理器的进度回调转换为工具的进度上报
+   */
+  static toToolProgress(reportProgress: ToolProgressReporter): ProgressCallback {
+    return (progress: ProgressInfo) => {
+      const percent = progress.percentComplete ?? 0;
+      reportProgress({
+        progress: percent,
+        total: 100,
+        message: progress.detail
+          ? `${progress.stage}... ${progress.detail} (${percent}%)`
+          : `${progress.stage}... ${percent}%`
+      });
+    };
+  }
+
   /**
    * 格式化字节大小为人类可读格式
    */
@@ -0,0 +1,188 @@
+import fs from 'fs';
+import path from 'path';
+import { CompressionUtils, ConflictPolicy, DEFAULT_CONFLICT_POLICY, MCPResult } from './compression-utils.js';
+
+// rename策略查找可用文件名时的最大尝试次数
+const MAX_RENAME_ATTEMPTS = 10000;
+
+/**
+ * 输出位置已存在时的处理结果
+ */
+export interface ConflictRecord {
+  path: string;
+  resolution: 'overwritten' | 'skipped' | 'renamed';
+  renamedTo?: string;
+}
+
+/**
+ * onConflict为error时输出位置已存在
+ */
+export class OutputConflictError extends Error {
+  constructor(public readonly outputPath: string) {
+    super(`Output file already exists: ${outputPath}`);
+    this.name = 'OutputConflictError';
+  }
+}
+
+/**
+ * 输出冲突处理
+ * 按onConflict策略处理压缩输出文件或解压条目的输出位置已存在的情况：
+ * error报错，overwrite覆盖，skip跳过，rename改用"name (1).ext"形式的新文件名，
+ * keep-newer只在新内容的修改时间晚于已有文件时覆盖
+ * 每次操作创建一个实例，并记录所有冲突及处理方式
+ */
+export class ConflictResolver {
+  private policy: ConflictPolicy;
+  private conflicts: ConflictRecord[] = [];
+  private renamedPaths = new Map<string, string>();
+  private writtenPaths = new Set<string>();
+
+  constructor(policy?: ConflictPolicy) {
+    this.policy = policy || DEFAULT_CONFLICT_POLICY;
+  }
+
+  /**
+   * 检查输出位置并按策略确定实际写入的路径
+   * 目录已存在时合并写入，不视为冲突，因此只用于文件、链接和压缩输出文件；
+   * 同一次操作中先写入的文件（如tar中追加的同名条目）直接覆盖
+   * @param outputPath 输出路径
+   * @param sourceMtime 新内容的修改时间，只在keep-newer策略下使用；未知时保留已有文件
+   * @returns 实际写入的路径，跳过时返回null
+   */
+  async resolve(outputPath: string, sourceMtime?: Date | (() => Promise<Date | undefined>)): Promise<string | null> {
+    const writePath = await this.getWritePath(outputPath, sourceMtime);
+    if (writePath) {
+      this.writtenPaths.add(writePath);
+    }
+    return writePath;
+  }
+
+  /**
+   * 检查压缩输出文件，keep-newer按源文件或文件夹中最新的修改时间比较
+   */
+  async resolveTarget(targetPath: string, sourcePath: string): Promise<string | null> {
+    return this.resolve(targetPath, () => ConflictResolver.getLatestMtime(sourcePath));
+  }
+
+  /**
+   * 获取输出路径被rename策略改写后的路径（如硬链接的目标），未改写时返回原路径
+   */
+  getWrittenPath(outputPath: string): string {
+    return this.renamedPaths.get(outputPath) || outputPath;
+  }
+
+  /**
+   * 获取写入操作结果的冲突策略和所有冲突的处理方式
+   */
+  getReport(): { onConflict: ConflictPolicy, conflicts: ConflictRecord[] } {
+    return { onConflict: this.policy, conflicts: this.conflicts };
+  }
+
+  /**
+   * 生成压缩输出文件已存在而被跳过时的结果
+   */
+  createSkippedResult(sourcePath: string, targetPath: string): MCPResult {
+    return CompressionUtils.createSuccessResult(
+      `Output file already exists, skipped compressing ${sourcePath}: ${targetPath}`,
+      {
+        skipped: true,
+        ...this.getReport(),
+        sourcePath,
+        targetPath
+      }
+    );
+  }
+
+  /**
+   * 按策略确定写入路径
+   */
+  private async getWritePath(
+    outputPath: string,
+    sourceMtime?: Date | (() => Promise<Date | undefined>)
+  ): Promise<string | null> {
+    const existing = await fs.promises.lstat(outputPath).catch(() => null);
+    if (!existing || this.writtenPaths.has(outputPath)) {
+      return outputPath;
+    }
+
+    switch (this.policy) {
+      case 'overwrite':
+        ConflictResolver.checkReplaceable(outputPath, existing);
+        this.conflicts.push({ path: outputPath, resolution: 'overwritten' });
+        return outputPath;
+
+      case 'skip':
+        this.conflicts.push({ path: outputPath, resolution: 'skipped' });
+        return null;
+
+      case 'rename': {
+        const renamedTo = await ConflictResolver.findAvailablePath(outputPath);
+        this.conflicts.push({ path: outputPath, resolution: 'renamed', renamedTo });
+        this.renamedPaths.set(outputPath, renamedTo);
+        return renamedTo;
+      }
+
+      case 'keep-newer': {
+        const mtime = typeof sourceMtime === 'function' ? await sourceMtime() : sourceMtime;
+        if (!mtime || mtime.getTime() <= existing.mtime.getTime()) {
+          this.conflicts.push({ path: outputPath, resolution: 'skipped' });
+          return null;
+        }
+        ConflictResolver.checkReplaceable(outputPath, existing);
+        this.conflicts.push({ path: outputPath, resolution: 'overwritten' });
+        return outputPath;
+      }
+
+      default:
+        throw new OutputConflictError(outputPath);
+    }
+  }
+
+  /**
+   * 生成冲突处理方式的说明，用于独立工具的文本结果
+   */
+  static describe(conflict: ConflictRecord): string {
+    switch (conflict.resolution) {
+      case 'overwritten':
+        return `${conflict.path}: existing file overwritten`;
+      case 'renamed':
+        return `${conflict.path}: already exists, written to ${conflict.renamedTo}`;
+      default:
+        return `${conflict.path}: already exists, skipped`;
+    }
+  }
+
+  /**
+   * 查找"name (1).ext"形式的可用文件名，保留.tar.gz等复合扩展名
+   */
+  static async findAvailablePath(outputPath: string): Promise<string> {
+    const dir = path.dirname(outputPath);
+    const baseName = path.basename(outputPath);
+    const extension = CompressionUtils.getFileExtension(baseName);
+    const stem = baseName.slice(0, baseName.length - extension.length);
+
+    for (let i = 1; i <= MAX_RENAME_ATTEMPTS; i++) {
+      const candidate = path.join(dir, `${stem} (${i})${extension}`);
+      if (!await fs.promises.lstat(candidate).then(() => true, () => false)) {
+        return candidate;
+      }
+    }
+    throw new Error(`Cannot find an available file name for: ${outputPath}`);
+  }
+
+  /**
+   * 获取文件或文件夹（含其中所有条目）最新的修改时间
+   */
+  private static async getLatestMtime(sourcePath: string): Promise<Date> {
+    return (await CompressionUtils.collectSourceEntries(sourcePath)).latestMtime;
+  }
+
+  /**
+   * 已存在的目录不能被文件覆盖，避免删除整个目录
+   */
+  private static checkReplaceable(outputPath: string, existing: fs.Stats): void {
+    if (existing.isDirectory()) {
+      throw new Error(`Cannot overwrite directory with a file: ${outputPath}`);
+    }
+  }
+}
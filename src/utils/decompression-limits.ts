@@ -0,0 +1,113 @@
+import { Transform, TransformCallback } from 'stream';
+import { DecompressionLimits } from './compression-utils.js';
+
+// 默认解压限制
+export const DEFAULT_DECOMPRESSION_LIMITS: Required<DecompressionLimits> = {
+  maxTotalSize: 10 * 1024 * 1024 * 1024,
+  maxExpansionRatio: 1000,
+  maxEntries: 100000,
+  maxDepth: 64
+};
+
+// 输出未超过该大小时不检查压缩比，避免高度可压缩的小文件被误判
+const RATIO_GRACE_SIZE = 1024 * 1024;
+
+/**
+ * 超出解压限制时抛出的错误
+ */
+export class DecompressionLimitError extends Error {
+  readonly limit: keyof DecompressionLimits;
+
+  constructor(limit: keyof DecompressionLimits, message: string) {
+    super(message);
+    this.name = 'DecompressionLimitError';
+    this.limit = limit;
+  }
+}
+
+/**
+ * 解压限制检查器
+ * 在流式解压过程中累计输出字节数和条目数量，超出限制时抛出DecompressionLimitError
+ */
+export class DecompressionLimiter {
+  private limits: Required<DecompressionLimits>;
+  private compressedSize: number;
+  private totalSize = 0;
+  private entryCount = 0;
+
+  /**
+   * @param compressedSize 压缩文件大小，用于计算压缩比
+   * @param limits 解压限制，未指定的项使用默认值
+   */
+  constructor(compressedSize: number, limits: DecompressionLimits = {}) {
+    this.compressedSize = compressedSize;
+    this.limits = {
+      maxTotalSize: limits.maxTotalSize ?? DEFAULT_DECOMPRESSION_LIMITS.maxTotalSize,
+      maxExpansionRatio: limits.maxExpansionRatio ?? DEFAULT_DECOMPRESSION_LIMITS.maxExpansionRatio,
+      maxEntries: limits.maxEntries ?? DEFAULT_DECOMPRESSION_LIMITS.maxEntries,
+      maxDepth: limits.maxDepth ?? DEFAULT_DECOMPRESSION_LIMITS.maxDepth
+    };
+  }
+
+  /**
+   * 记录一个条目，检查条目数量和路径层级
+   */
+  addEntry(entryPath: string): void {
+    this.entryCount++;
+    if (this.entryCount > this.limits.maxEntries) {
+      throw new DecompressionLimitError(
+        'maxEntries',
+        `Archive contains more than ${this.limits.maxEntries} entries`
+      );
+    }
+
+    const depth = entryPath.split(/[\\/]+/).filter(segment => segment.length > 0).length;
+    if (depth > this.limits.maxDepth) {
+      throw new DecompressionLimitError(
+        'maxDepth',
+        `Entry ${entryPath} is nested ${depth} levels deep, exceeding the limit of ${this.limits.maxDepth}`
+      );
+    }
+  }
+
+  /**
+   * 累计输出字节数，检查总大小和压缩比
+   */
+  addBytes(bytes: number): void {
+    this.totalSize += bytes;
+
+    if (this.totalSize > this.limits.maxTotalSize) {
+      throw new DecompressionLimitError(
+        'maxTotalSize',
+        `Decompressed output exceeds the limit of ${this.limits.maxTotalSize} bytes`
+      );
+    }
+
+    if (this.totalSize > RATIO_GRACE_SIZE && this.compressedSize > 0) {
+      const ratio = this.totalSize / this.compressedSize;
+      if (ratio > this.limits.maxExpansionRatio) {
+        throw new DecompressionLimitError(
+          'maxExpansionRatio',
+          `Expansion ratio exceeds the limit of ${this.limits.maxExpansionRatio}:1 ` +
+          `(${this.totalSize} bytes from ${this.compressedSize} compressed bytes)`
+        );
+      }
+    }
+  }
+
+  /**
+   * 创建计量流，放在解压流和写入流之间，超出限制时以错误结束管道
+   */
+  createMeter(): Transform {
+    return new Transform({
+      transform: (chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) => {
+        try {
+          this.addBytes(chunk.length);
+          callback(null, chunk);
+        } catch (error: any) {
+          callback(error);
+        }
+      }
+    });
+  }
+}
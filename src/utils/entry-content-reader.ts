@@ -0,0 +1,245 @@
+import { EntryEncoding, ReadEntryOptions } from './compression-utils.js';
+
+// 默认最多返回的内容字节数
+export const DEFAULT_READ_MAX_BYTES = 1024 * 1024;
+
+// 检测编码时最多检查的字节数
+const DETECTION_SAMPLE_SIZE = 64 * 1024;
+
+// 控制字符占比超过该值时视为二进制内容
+const BINARY_CONTROL_RATIO = 0.1;
+
+/**
+ * 条目内容读取结果
+ */
+export interface EntryContent {
+  encoding: Exclude<EntryEncoding, 'auto'>;
+  isBinary: boolean;
+  content: string;
+  bytesRead: number;
+  byteOffset?: number;
+  startLine?: number;
+  endLine?: number;
+  truncated: boolean;
+}
+
+/**
+ * 条目内容读取器
+ * 逐块接收解压后的数据，只保留请求的字节范围或行范围，并在返回时检测编码
+ * 读取到所需范围后push返回true，调用方应停止解压以免读取整个条目
+ */
+export class EntryContentReader {
+  private encoding: EntryEncoding;
+  private byteOffset: number;
+  private byteEnd: number;
+  private startLine?: number;
+  private endLine: number;
+  private maxBytes: number;
+  private chunks: Buffer[] = [];
+  private collected = 0;
+  private position = 0;
+  private line = 1;
+  private lastLine = 0;
+  private complete = false;
+  private truncated = false;
+
+  constructor(options: ReadEntryOptions = {}) {
+    const usesBytes = options.byteOffset !== undefined || options.byteLength !== undefined;
+    const usesLines = options.startLine !== undefined || options.endLine !== undefined;
+    if (usesBytes && usesLines) {
+      throw new Error('byteOffset/byteLength cannot be combined with startLine/endLine');
+    }
+
+    this.encoding = options.encoding || 'auto';
+    this.byteOffset = Math.max(0, options.byteOffset || 0);
+    this.byteEnd = options.byteLength !== undefined ? this.byteOffset + options.byteLength : Infinity;
+    this.maxBytes = Math.max(1, options.maxBytes || DEFAULT_READ_MAX_BYTES);
+
+    if (usesLines) {
+      this.startLine = Math.max(1, options.startLine || 1);
+      this.endLine = options.endLine ?? Infinity;
+      if (this.endLine < this.startLine) {
+        throw new Error(`endLine (${this.endLine}) must not be less than startLine (${this.startLine})`);
+      }
+    } else {
+      this.endLine = Infinity;
+    }
+  }
+
+  /**
+   * 处理一段解压后的数据
+   * @returns 是否已读取到所需的全部内容
+   */
+  push(chunk: Buffer): boolean {
+    if (this.complete) {
+      return true;
+    }
+
+    if (this.startLine !== undefined) {
+      this.pushLines(chunk);
+    } else {
+      this.pushBytes(chunk);
+    }
+
+    this.position += chunk.length;
+    return this.complete;
+  }
+
+  /**
+   * 从可读流中读取数据，读取到所需范围后提前结束（会销毁流）
+   */
+  async consume(stream: AsyncIterable<Buffer>): Promise<void> {
+    for await (const chunk of stream) {
+      if (this.push(chunk)) {
+        break;
+      }
+    }
+  }
+
+  /**
+   * 生成读取结果
+   */
+  build(): EntryContent {
+    const data = Buffer.concat(this.chunks, this.collected);
+    const encoding = this.encoding === 'auto' ? EntryContentReader.detectEncoding(data) : this.encoding;
+
+    const result: EntryContent = {
+      encoding,
+      isBinary: encoding === 'base64',
+      content: EntryContentReader.decode(data, encoding),
+      bytesRead: data.length,
+      truncated: this.truncated
+    };
+
+    if (this.startLine !== undefined) {
+      result.startLine = this.startLine;
+      result.endLine = Math.max(this.startLine, this.lastLine);
+    } else {
+      result.byteOffset = this.byteOffset;
+    }
+
+    return result;
+  }
+
+  /**
+   * 按字节范围收集数据
+   */
+  private pushBytes(chunk: Buffer): void {
+    const from = Math.max(this.byteOffset - this.position, 0);
+    const to = Math.min(this.byteEnd - this.position, chunk.length);
+    if (from < to) {
+      this.collect(chunk.subarray(from, to));
+    }
+    if (this.position + chunk.length >= this.byteEnd) {
+      this.complete = true;
+    }
+  }
+
+  /**
+   * 按行范围收集数据（以\n分行，包含行尾换行符）
+   */
+  private pushLines(chunk: Buffer): void {
+    let index = 0;
+    while (index < chunk.length && !this.complete) {
+      const newline = chunk.indexOf(0x0a, index);
+      const lineEnd = newline === -1 ? chunk.length : newline + 1;
+
+      if (this.line >= this.startLine!) {
+        this.lastLine = this.line;
+        this.collect(chunk.subarray(index, lineEnd));
+      }
+
+      if (newline === -1) {
+        break;
+      }
+
+      this.line++;
+      if (this.line > this.endLine) {
+        this.complete = true;
+      }
+      index = lineEnd;
+    }
+  }
+
+  /**
+   * 保存数据，超过maxBytes时截断并结束读取
+   */
+  private collect(data: Buffer): void {
+    const remaining = this.maxBytes - this.collected;
+    if (data.length > remaining) {
+      data = data.subarray(0, remaining);
+      this.truncated = true;
+      this.complete = true;
+    }
+    this.chunks.push(data);
+    this.collected += data.length;
+  }
+
+  /**
+   * 检测内容的文本编码
+   * 依次检查BOM、UTF-8有效性和控制字符比例，判断为二进制时返回base64
+   */
+  static detectEncoding(data: Buffer): Exclude<EntryEncoding, 'auto'> {
+    if (data.length >= 3 && data[0] === 0xef && data[1] === 0xbb && data[2] === 0xbf) {
+      return 'utf8';
+    }
+    if (data.length >= 2 && data[0] === 0xff && data[1] === 0xfe) {
+      return 'utf16le';
+    }
+    if (data.length >= 2 && data[0] === 0xfe && data[1] === 0xff) {
+      return 'utf16be';
+    }
+
+    const sample = data.subarray(0, DETECTION_SAMPLE_SIZE);
+    if (sample.includes(0)) {
+      return 'base64';
+    }
+
+    if (EntryContentReader.isValidUtf8(sample)) {
+      return 'utf8';
+    }
+
+    let controlCount = 0;
+    for (const byte of sample) {
+      if (byte < 0x09 || (byte > 0x0d && byte < 0x20) || byte === 0x7f) {
+        controlCount++;
+      }
+    }
+    return controlCount > sample.length * BINARY_CONTROL_RATIO ? 'base64' : 'latin1';
+  }
+
+  /**
+   * 检查数据是否为有效的UTF-8
+   * 范围读取可能从多字节字符中间开始或结束，因此忽略开头的续字节和结尾不完整的字符
+   */
+  private static isValidUtf8(data: Buffer): boolean {
+    let start = 0;
+    while (start < data.length && start < 3 && (data[start] & 0xc0) === 0x80) {
+      start++;
+    }
+
+    try {
+      // 以流模式解码，结尾不完整的字符会被保留而不会报错
+      new TextDecoder('utf-8', { fatal: true }).decode(data.subarray(start), { stream: true });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 按指定编码解码数据
+   */
+  private static decode(data: Buffer, encoding: Exclude<EntryEncoding, 'auto'>): string {
+    switch (encoding) {
+      case 'utf8':
+        return new TextDecoder('utf-8').decode(data);
+      case 'utf16le':
+        return new TextDecoder('utf-16le').decode(data);
+      case 'utf16be':
+        return new TextDecoder('utf-16be').decode(data);
+      default:
+        return data.toString(encoding);
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { GlobMatcher } from './glob-matcher.js';
+
+/**
+ * 未匹配任何条目的模式
+ */
+export interface UnmatchedPatterns {
+  include: string[];
+  exclude: string[];
+}
+
+/**
+ * 归档条目过滤器
+ * 按include/exclude glob模式选择要解压的条目；模式匹配条目本身或其任一上级目录时都视为匹配，
+ * 因此"config"会选中config目录下的所有条目
+ */
+export class EntryFilter {
+  private include: GlobMatcher;
+  private exclude: GlobMatcher;
+
+  constructor(include: string[] = [], exclude: string[] = []) {
+    this.include = new GlobMatcher(include);
+    this.exclude = new GlobMatcher(exclude);
+  }
+
+  /**
+   * 是否没有任何过滤模式
+   */
+  isEmpty(): boolean {
+    return this.include.isEmpty() && this.exclude.isEmpty();
+  }
+
+  /**
+   * 检查条目是否应被解压
+   */
+  matches(entryPath: string): boolean {
+    // 两组模式都要完整匹配一遍，以便准确统计未命中的模式
+    const included = this.include.isEmpty() || EntryFilter.matchesPathOrParent(this.include, entryPath);
+    const excluded = !this.exclude.isEmpty() && EntryFilter.matchesPathOrParent(this.exclude, entryPath);
+    return included && !excluded;
+  }
+
+  /**
+   * 获取未匹配任何条目的模式
+   */
+  getUnmatchedPatterns(): UnmatchedPatterns {
+    return {
+      include: this.include.getUnmatchedPatterns(),
+      exclude: this.exclude.getUnmatchedPatterns()
+    };
+  }
+
+  /**
+   * 检查路径本身或其任一上级目录是否匹配
+   */
+  private static matchesPathOrParent(matcher: GlobMatcher, entryPath: string): boolean {
+    const segments = GlobMatcher.normalizePath(entryPath).split('/').filter(segment => segment.length > 0);
+    let matched = false;
+    for (let i = 1; i <= segments.length; i++) {
+      if (matcher.matches(segments.slice(0, i).join('/'))) {
+        matched = true;
+      }
+    }
+    return matched;
+  }
+}
@@ -0,0 +1,132 @@
+import { ChildProcessWithoutNullStreams, spawn } from 'child_process';
+import { Duplex } from 'stream';
+
+// 保留的stderr输出长度上限，用于错误信息
+const MAX_STDERR_LENGTH = 4096;
+
+/**
+ * 外部压缩程序的流包装
+ * 写入的数据送入子进程stdin，stdout输出作为可读端；
+ * 与Transform一致，子进程正常退出后才结束可读端并触发finish事件，
+ * 确保输出已全部产生，且损坏数据导致的非零退出码能被调用方感知
+ */
+class ProcessStream extends Duplex {
+  private child: ChildProcessWithoutNullStreams;
+  private stderr = '';
+  private pendingWrite: ((error?: Error | null) => void) | null = null;
+  private pendingFinal: ((error?: Error | null) => void) | null = null;
+
+  constructor(binaryPath: string, args: string[], private codec: ExternalCodec) {
+    super();
+    this.child = spawn(binaryPath, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+
+    this.child.stdout.on('data', (chunk: Buffer) => {
+      if (!this.push(chunk)) {
+        this.child.stdout.pause();
+      }
+    });
+
+    this.child.stderr.on('data', (chunk: Buffer) => {
+      this.stderr = (this.stderr + chunk.toString()).slice(-MAX_STDERR_LENGTH);
+    });
+
+    // 子进程提前退出时写入会产生EPIPE，以退出码为准报告错误
+    this.child.stdin.on('error', () => {});
+
+    this.child.on('error', (error: NodeJS.ErrnoException) => {
+      this.destroy(error.code === 'ENOENT' ? this.codec.createNotFoundError(binaryPath) : error);
+    });
+
+    this.child.on('close', (code, signal) => {
+      this.releasePendingWrite();
+      if (this.destroyed) {
+        return;
+      }
+      if (code === 0) {
+        this.push(null);
+        this.pendingFinal?.();
+      } else {
+        const reason = this.stderr.trim() || (signal ? `terminated by ${signal}` : `exit code ${code}`);
+        this.destroy(new Error(`${this.codec.name} failed: ${reason}`));
+      }
+    });
+  }
+
+  _write(chunk: Buffer, _encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+    if (this.child.stdin.write(chunk)) {
+      callback();
+    } else {
+      this.pendingWrite = callback;
+      this.child.stdin.once('drain', () => this.releasePendingWrite());
+    }
+  }
+
+  _final(callback: (error?: Error | null) => void): void {
+    this.pendingFinal = callback;
+    this.child.stdin.end();
+  }
+
+  _read(): void {
+    this.child.stdout.resume();
+  }
+
+  _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+    // 提前中断读取时终止子进程
+    if (this.child.exitCode === null && this.child.signalCode === null) {
+      this.child.kill();
+    }
+    callback(error);
+  }
+
+  /**
+   * 完成等待drain事件的写入回调
+   */
+  private releasePendingWrite(): void {
+    const callback = this.pendingWrite;
+    this.pendingWrite = null;
+    callback?.();
+  }
+}
+
+/**
+ * 外部压缩程序（zstd等）
+ * Node.js内置zlib不支持的格式通过调用系统中的可执行文件实现，
+ * 可执行文件路径可通过环境变量配置
+ */
+export class ExternalCodec {
+  /**
+   * @param name 程序名称，用于错误信息
+   * @param binaryEnv 指定可执行文件路径的环境变量
+   * @param defaultBinary 未配置环境变量时在PATH中查找的可执行文件名
+   */
+  constructor(
+    readonly name: string,
+    readonly binaryEnv: string,
+    private defaultBinary: string
+  ) {}
+
+  /**
+   * 解析可执行文件路径
+   */
+  getBinaryPath(): string {
+    return process.env[this.binaryEnv] || this.defaultBinary;
+  }
+
+  /**
+   * 以给定参数启动程序，返回读写stdin/stdout的流
+   */
+  createStream(args: string[]): Duplex {
+    return new ProcessStream(this.getBinaryPath(), args, this);
+  }
+
+  /**
+   * 创建可执行文件不存在时的错误
+   */
+  createNotFoundError(binaryPath: string): Error {
+    return new Error(
+      `${this.name} executable not found: "${binaryPath}". ` +
+      `Install ${this.name} and make sure "${this.defaultBinary}" is on PATH, ` +
+      `or set the ${this.binaryEnv} environment variable to the ${this.name} executable path.`
+    );
+  }
+}
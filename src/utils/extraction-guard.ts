@@ -0,0 +1,227 @@
+import fs from 'fs';
+import path from 'path';
+import { CompressionUtils } from './compression-utils.js';
+
+/**
+ * 被跳过的归档条目
+ */
+export interface SkippedEntry {
+  path: string;
+  reason: string;
+}
+
+/**
+ * 解压安全检查
+ * 拒绝绝对路径、包含'..'的路径、指向目标目录之外的链接以及设备文件，防止zip-slip等路径穿越攻击
+ * 每次解压创建一个实例，并记录被跳过的条目及原因
+ */
+export class ExtractionGuard {
+  private targetDir: string;
+  private realTargetDir?: string;
+  private skippedEntries: SkippedEntry[] = [];
+
+  constructor(targetDir: string) {
+    this.targetDir = path.resolve(targetDir);
+  }
+
+  /**
+   * 检查条目名并解析输出路径
+   * @param entryName 归档中的原始条目名
+   * @param strippedPath 去除前缀后的条目路径
+   * @returns 安全的输出路径，条目不安全时记录原因并返回null
+   */
+  async resolveOutputPath(entryName: string, strippedPath: string): Promise<string | null> {
+    const reason = ExtractionGuard.checkEntryName(entryName) || ExtractionGuard.checkEntryName(strippedPath);
+    if (reason) {
+      this.skip(entryName, reason);
+      return null;
+    }
+
+    const outputPath = path.resolve(this.targetDir, strippedPath);
+    if (!this.isInside(outputPath)) {
+      this.skip(entryName, 'resolves outside the target directory');
+      return null;
+    }
+
+    // 已存在的父目录可能是指向外部的符号链接，需按真实路径检查
+    if (!await this.isRealPathInside(path.dirname(outputPath))) {
+      this.skip(entryName, 'parent directory resolves outside the target directory through a symlink');
+      return null;
+    }
+
+    return outputPath;
+  }
+
+  /**
+   * 检查符号链接的目标是否位于目标目录内
+   * 链接所在目录需已存在，按其真实路径解析链接目标
+   */
+  async checkSymlink(entryName: string, outputPath: string, linkTarget: string): Promise<boolean> {
+    if (!linkTarget) {
+      this.skip(entryName, 'symlink has an empty target');
+      return false;
+    }
+
+    if (ExtractionGuard.isAbsolute(linkTarget)) {
+      this.skip(entryName, `symlink target is an absolute path: ${linkTarget}`);
+      return false;
+    }
+
+    // 'x/..'形式的目标在x为符号链接时无法按字面路径判断实际位置，只允许'..'出现在开头
+    const segments = linkTarget.split(/[\\/]+/).filter(segment => segment && segment !== '.');
+    const firstName = segments.findIndex(segment => segment !== '..');
+    if (firstName !== -1 && segments.slice(firstName).includes('..')) {
+      this.skip(entryName, `symlink target contains ".." after a directory name: ${linkTarget}`);
+      return false;
+    }
+
+    const realParent = await fs.promises.realpath(path.dirname(outputPath));
+    if (!this.isInside(path.resolve(realParent, linkTarget), await this.getRealTargetDir())) {
+      this.skip(entryName, `symlink target points outside the target directory: ${linkTarget}`);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * 检查硬链接目标并解析其输出路径
+   * @param entryName 归档中的原始条目名
+   * @param linkName 归档中的原始链接目标
+   * @param strippedLinkName 去除前缀后的链接目标
+   * @param getWrittenPath 获取链接目标实际写入的路径（如被onConflict的rename策略改写）
+   * @returns 链接目标的输出路径，不安全时记录原因并返回null
+   */
+  async resolveHardlinkTarget(
+    entryName: string,
+    linkName: string,
+    strippedLinkName: string | null,
+    getWrittenPath: (outputPath: string) => string = outputPath => outputPath
+  ): Promise<string | null> {
+    if (!strippedLinkName) {
+      this.skip(entryName, `hardlink target was removed by stripComponents: ${linkName}`);
+      return null;
+    }
+
+    const reason = ExtractionGuard.checkEntryName(linkName) || ExtractionGuard.checkEntryName(strippedLinkName);
+    const linkPath = getWrittenPath(path.resolve(this.targetDir, strippedLinkName));
+    if (reason || !this.isInside(linkPath) || !await this.isRealPathInside(linkPath)) {
+      this.skip(entryName, `hardlink target points outside the target directory: ${linkName}`);
+      return null;
+    }
+
+    // 链接目标可能因过滤或不安全而未被解压
+    if (!await fs.promises.lstat(linkPath).then(() => true, () => false)) {
+      this.skip(entryName, `hardlink target was not extracted: ${linkName}`);
+      return null;
+    }
+
+    return linkPath;
+  }
+
+  /**
+   * 写入条目前移除输出位置上已存在的符号链接，避免通过链接写到目标目录之外
+   */
+  async removeExistingLink(outputPath: string): Promise<void> {
+    try {
+      const stats = await fs.promises.lstat(outputPath);
+      if (stats.isSymbolicLink()) {
+        await fs.promises.unlink(outputPath);
+      }
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * 记录设备文件、FIFO等不解压的特殊条目
+   */
+  skipSpecialFile(entryName: string, type: string): void {
+    this.skip(entryName, `unsupported entry type: ${type}`);
+  }
+
+  /**
+   * 记录被跳过的条目
+   */
+  skip(entryName: string, reason: string): void {
+    this.skippedEntries.push({ path: entryName, reason });
+  }
+
+  /**
+   * 获取所有被跳过的条目
+   */
+  getSkippedEntries(): SkippedEntry[] {
+    return this.skippedEntries;
+  }
+
+  /**
+   * 检查条目名是否为绝对路径或包含'..'
+   * @returns 不安全的原因，安全时返回null
+   */
+  static checkEntryName(entryName: string): string | null {
+    if (ExtractionGuard.isAbsolute(entryName)) {
+      return 'absolute path';
+    }
+
+    if (entryName.split(/[\\/]+/).includes('..')) {
+      return 'path contains ".." segments';
+    }
+
+    return null;
+  }
+
+  /**
+   * 判断路径是否为绝对路径（包括Windows盘符和UNC路径）
+   */
+  private static isAbsolute(entryPath: string): boolean {
+    return entryPath.startsWith('/') || entryPath.startsWith('\\') || /^[a-zA-Z]:/.test(entryPath);
+  }
+
+  /**
+   * 判断路径是否位于目标目录内（按字面路径）
+   */
+  private isInside(resolvedPath: string, rootDir: string = this.targetDir): boolean {
+    return CompressionUtils.isPathInside(resolvedPath, rootDir);
+  }
+
+  /**
+   * 获取目标目录的真实路径
+   */
+  private async getRealTargetDir(): Promise<string> {
+    if (!this.realTargetDir) {
+      this.realTargetDir = await fs.promises.realpath(this.targetDir);
+    }
+    return this.realTargetDir;
+  }
+
+  /**
+   * 按真实路径判断是否位于目标目录内
+   * 路径不存在时检查最近的已存在的上级目录
+   */
+  private async isRealPathInside(resolvedPath: string): Promise<boolean> {
+    const realTargetDir = await this.getRealTargetDir();
+
+    let current = resolvedPath;
+    for (;;) {
+      try {
+        const realPath = await fs.promises.realpath(current);
+        return this.isInside(realPath, realTargetDir);
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') {
+          throw error;
+        }
+        // 悬空的符号链接无法确定最终位置，视为不安全
+        if (await fs.promises.lstat(current).then(() => true, () => false)) {
+          return false;
+        }
+        const parent = path.dirname(current);
+        if (parent === current) {
+          return false;
+        }
+        current = parent;
+      }
+    }
+  }
+}
@@ -0,0 +1,176 @@
+import fs from 'fs';
+import path from 'path';
+import { AtomicOutput } from './atomic-output.js';
+import { CompressionUtils } from './compression-utils.js';
+import { ConflictResolver } from './conflict-resolver.js';
+import { ExtractionGuard } from './extraction-guard.js';
+
+// 临时目录名前缀
+const STAGING_PREFIX = '.extract-';
+
+/**
+ * 解压暂存目录
+ * 条目先解压到目标目录中的临时目录，全部完成后再合并到目标目录；
+ * 出错或中断时只需删除临时目录，目标目录保持不变
+ * 解压时使用临时目录中的路径，冲突按目标目录中对应的路径检查
+ */
+export class ExtractionStage {
+  readonly stagingDir: string;
+  private targetDir: string;
+  private conflicts: ConflictResolver;
+  // 整体移动到目标目录中的目录（相对路径）
+  private movedDirectories = new Set<string>();
+
+  private constructor(targetDir: string, stagingDir: string, conflicts: ConflictResolver) {
+    this.targetDir = targetDir;
+    this.stagingDir = stagingDir;
+    this.conflicts = conflicts;
+  }
+
+  /**
+   * 在目标目录中创建临时目录
+   */
+  static async create(targetDir: string, conflicts: ConflictResolver): Promise<ExtractionStage> {
+    const stagingDir = await fs.promises.mkdtemp(path.join(targetDir, STAGING_PREFIX));
+    AtomicOutput.track(stagingDir);
+    return new ExtractionStage(path.resolve(targetDir), stagingDir, conflicts);
+  }
+
+  /**
+   * 按onConflict策略检查目标目录中对应的文件
+   * @param stagedPath 条目在临时目录中的输出路径
+   * @param mtime 条目的修改时间，用于keep-newer策略
+   * @returns 临时目录中实际写入的路径（rename策略下为新文件名），跳过时返回null
+   */
+  async resolveConflict(stagedPath: string, mtime?: Date | (() => Promise<Date | undefined>)): Promise<string | null> {
+    const writePath = await this.conflicts.resolve(this.toTargetPath(stagedPath), mtime);
+    return writePath ? this.toStagedPath(writePath) : null;
+  }
+
+  /**
+   * 获取条目在临时目录中实际写入的路径（如硬链接的目标被rename策略改写后的路径）
+   */
+  getWrittenPath(stagedPath: string): string {
+    return this.toStagedPath(this.conflicts.getWrittenPath(this.toTargetPath(stagedPath)));
+  }
+
+  /**
+   * 将临时目录中的内容合并到目标目录
+   * 已存在的目录合并，文件和链接替换目标目录中的同名文件（冲突已在解压时处理）
+   * 移动前先检查所有条目，文件与目录类型冲突时不移动任何条目
+   */
+  async commit(guard: ExtractionGuard): Promise<void> {
+    const realTargetDir = await fs.promises.realpath(this.targetDir);
+    await this.checkEntries('', realTargetDir);
+    await this.moveEntries('', guard, realTargetDir);
+  }
+
+  /**
+   * 获取临时目录中的目录在commit后位于目标目录中的路径
+   * 只有随commit新建的目录返回路径；合并到已存在目录（保留已有目录的属性）或被跳过时返回null
+   */
+  getCommittedPath(stagedPath: string): string | null {
+    const segments = path.relative(this.stagingDir, stagedPath).split(path.sep);
+    for (let i = 1; i <= segments.length; i++) {
+      if (this.movedDirectories.has(segments.slice(0, i).join('/'))) {
+        return this.toTargetPath(stagedPath);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 删除临时目录
+   */
+  async discard(): Promise<void> {
+    await AtomicOutput.release(this.stagingDir);
+  }
+
+  /**
+   * 检查临时目录中的一层条目能否移动到目标目录：目录不能合并到已存在的文件，文件和链接不能替换已存在的目录
+   */
+  private async checkEntries(relativeDir: string, realTargetDir: string): Promise<void> {
+    const dirents = await fs.promises.readdir(path.join(this.stagingDir, relativeDir), { withFileTypes: true });
+
+    for (const dirent of dirents) {
+      const relativePath = relativeDir ? `${relativeDir}/${dirent.name}` : dirent.name;
+      const targetPath = path.join(this.targetDir, relativePath);
+      const existing = await fs.promises.lstat(targetPath).catch(() => null);
+      if (!existing) {
+        continue;
+      }
+
+      if (!dirent.isDirectory()) {
+        if (existing.isDirectory()) {
+          throw new Error(`Path exists but is a directory: ${targetPath}`);
+        }
+        continue;
+      }
+
+      if (await this.isMergeableDirectory(targetPath, existing, realTargetDir)) {
+        await this.checkEntries(relativePath, realTargetDir);
+      }
+    }
+  }
+
+  /**
+   * 判断目标目录中已存在的路径能否合并临时目录中的同名目录
+   * 指向外部的符号链接返回false（其下的条目被跳过），不是目录时抛出错误
+   */
+  private async isMergeableDirectory(targetPath: string, existing: fs.Stats, realTargetDir: string): Promise<boolean> {
+    if (existing.isSymbolicLink()) {
+      const realPath = await fs.promises.realpath(targetPath).catch(() => null);
+      if (!realPath || !CompressionUtils.isPathInside(realPath, realTargetDir)) {
+        return false;
+      }
+    }
+
+    if (!await CompressionUtils.isDirectory(targetPath)) {
+      throw new Error(`Path exists but is not a directory: ${targetPath}`);
+    }
+    return true;
+  }
+
+  /**
+   * 移动临时目录中的一层条目，目标位置不存在的目录整体移动
+   * 目标目录中指向外部的符号链接不跟随，其下的条目被跳过
+   */
+  private async moveEntries(relativeDir: string, guard: ExtractionGuard, realTargetDir: string): Promise<void> {
+    const dirents = await fs.promises.readdir(path.join(this.stagingDir, relativeDir), { withFileTypes: true });
+
+    for (const dirent of dirents) {
+      const relativePath = relativeDir ? `${relativeDir}/${dirent.name}` : dirent.name;
+      const stagedPath = path.join(this.stagingDir, relativePath);
+      const targetPath = path.join(this.targetDir, relativePath);
+      const existing = await fs.promises.lstat(targetPath).catch(() => null);
+
+      if (!dirent.isDirectory() || !existing) {
+        await fs.promises.rename(stagedPath, targetPath);
+        if (dirent.isDirectory()) {
+          this.movedDirectories.add(relativePath);
+        }
+        continue;
+      }
+
+      if (!await this.isMergeableDirectory(targetPath, existing, realTargetDir)) {
+        guard.skip(relativePath, 'parent directory resolves outside the target directory through a symlink');
+        continue;
+      }
+      await this.moveEntries(relativePath, guard, realTargetDir);
+    }
+  }
+
+  /**
+   * 临时目录中的路径转换为目标目录中的路径
+   */
+  private toTargetPath(stagedPath: string): string {
+    return path.join(this.targetDir, path.relative(this.stagingDir, stagedPath));
+  }
+
+  /**
+   * 目标目录中的路径转换为临时目录中的路径
+   */
+  private toStagedPath(targetPath: string): string {
+    return path.join(this.stagingDir, path.relative(this.targetDir, targetPath));
+  }
+}
@@ -0,0 +1,186 @@
+import fs from 'fs';
+import { brotliDecompressSync, constants } from 'zlib';
+
+// 读取的文件头长度，brotli启发式检测需要较多数据
+const HEADER_LENGTH = 64 * 1024;
+
+// brotli启发式检测时允许的最大解压输出
+const BROTLI_PROBE_MAX_OUTPUT = 16 * 1024 * 1024;
+
+// tar头部块大小及ustar标识位置
+const TAR_BLOCK_SIZE = 512;
+const TAR_MAGIC_OFFSET = 257;
+const TAR_CHECKSUM_OFFSET = 148;
+
+/**
+ * 文件头魔数签名
+ */
+interface MagicSignature {
+  format: string;
+  bytes: number[];
+  offset?: number;
+}
+
+// 按格式名称（与注册表中的名称一致）列出的魔数签名
+const MAGIC_SIGNATURES: MagicSignature[] = [
+  { format: 'gzip', bytes: [0x1f, 0x8b, 0x08] },
+  { format: 'zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { format: 'zip', bytes: [0x50, 0x4b, 0x05, 0x06] },  // 空归档
+  { format: 'zip', bytes: [0x50, 0x4b, 0x07, 0x08] },  // 分卷归档
+  { format: '7z', bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+  { format: 'xz', bytes: [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00] },
+  { format: 'bzip2', bytes: [0x42, 0x5a, 0x68] },
+  { format: 'zstd', bytes: [0x28, 0xb5, 0x2f, 0xfd] }
+];
+
+// 可以包含tar归档的压缩格式及对应的tar格式
+const TAR_VARIANTS: Record<string, string> = {
+  gzip: 'tar.gz',
+  zstd: 'tar.zst',
+  xz: 'tar.xz',
+  bzip2: 'tar.bz2'
+};
+
+/**
+ * 内容检测结果
+ */
+export interface DetectedFormat {
+  format: string;
+  heuristic: boolean;  // 为true时表示格式没有魔数，结果由启发式规则推断
+}
+
+/**
+ * 根据文件内容（魔数）检测压缩格式
+ */
+export class FormatDetector {
+  /**
+   * 读取文件头
+   */
+  static async readFileHeader(filePath: string, length: number = HEADER_LENGTH): Promise<Buffer> {
+    const handle = await fs.promises.open(filePath, 'r');
+    try {
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await handle.read(buffer, 0, length, 0);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * 根据文件头检测格式，无法识别时返回undefined
+   * 压缩格式只检测外层，是否包含tar归档需要解压后用isTarHeader判断
+   */
+  static detect(header: Buffer): DetectedFormat | undefined {
+    for (const signature of MAGIC_SIGNATURES) {
+      if (this.matchesSignature(header, signature)) {
+        return { format: signature.format, heuristic: false };
+      }
+    }
+
+    if (this.isTarHeader(header)) {
+      return { format: 'tar', heuristic: false };
+    }
+
+    if (this.looksLikeLzma(header)) {
+      return { format: 'lzma', heuristic: true };
+    }
+
+    if (this.looksLikeBrotli(header)) {
+      return { format: 'brotli', heuristic: true };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * 获取压缩格式对应的tar格式（如gzip对应tar.gz）
+   */
+  static getTarVariant(format: string): string | undefined {
+    return TAR_VARIANTS[format];
+  }
+
+  /**
+   * 判断两个格式名称是否兼容，tar变体与其外层压缩格式视为兼容
+   */
+  static isCompatible(detectedFormat: string, format: string): boolean {
+    return detectedFormat === format ||
+      TAR_VARIANTS[format] === detectedFormat ||
+      TAR_VARIANTS[detectedFormat] === format;
+  }
+
+  /**
+   * 检查数据是否以tar头部开始：ustar标识或有效的头部校验和（兼容旧的v7格式）
+   */
+  static isTarHeader(block: Buffer): boolean {
+    if (block.length < TAR_BLOCK_SIZE) {
+      return false;
+    }
+
+    if (block.toString('latin1', TAR_MAGIC_OFFSET, TAR_MAGIC_OFFSET + 5) === 'ustar') {
+      return true;
+    }
+
+    // 校验和为头部所有字节之和，计算时校验和字段本身按空格计
+    const checksumField = block.toString('latin1', TAR_CHECKSUM_OFFSET, TAR_CHECKSUM_OFFSET + 8).replace(/[\0 ]+$/, '').trim();
+    if (!/^[0-7]+$/.test(checksumField) || block[0] === 0) {
+      return false;
+    }
+    let sum = 0;
+    for (let i = 0; i < TAR_BLOCK_SIZE; i++) {
+      sum += i >= TAR_CHECKSUM_OFFSET && i < TAR_CHECKSUM_OFFSET + 8 ? 0x20 : block[i];
+    }
+    return sum === parseInt(checksumField, 8);
+  }
+
+  /**
+   * 检查文件头是否与签名一致
+   */
+  private static matchesSignature(header: Buffer, signature: MagicSignature): boolean {
+    const offset = signature.offset || 0;
+    if (header.length < offset + signature.bytes.length) {
+      return false;
+    }
+    return signature.bytes.every((byte, index) => header[offset + index] === byte);
+  }
+
+  /**
+   * 旧的.lzma格式没有魔数：检查属性字节、字典大小和原始大小字段是否合理
+   */
+  private static looksLikeLzma(header: Buffer): boolean {
+    if (header.length < 13 || header[0] !== 0x5d) {
+      return false;
+    }
+
+    // 字典大小通常为2^n或2^n+2^(n-1)
+    const dictionarySize = header.readUInt32LE(1);
+    const isPowerOfTwo = (value: number) => value > 0 && (value & (value - 1)) === 0;
+    if (!isPowerOfTwo(dictionarySize) && !(dictionarySize % 3 === 0 && isPowerOfTwo(dictionarySize / 3 * 2))) {
+      return false;
+    }
+
+    // 原始大小未知时为全1，否则不会超过2^48
+    const unknownSize = header.subarray(5, 13).every(byte => byte === 0xff);
+    return unknownSize || header.readUInt16LE(11) === 0;
+  }
+
+  /**
+   * brotli格式没有魔数：尝试解压文件头，
+   * 只有能够解压且输出大于输入时才认为是brotli（随机数据可能被解析为未压缩的元数据块）
+   */
+  private static looksLikeBrotli(header: Buffer): boolean {
+    if (header.length === 0) {
+      return false;
+    }
+    try {
+      const output = brotliDecompressSync(header, {
+        finishFlush: constants.BROTLI_OPERATION_FLUSH,
+        maxOutputLength: BROTLI_PROBE_MAX_OUTPUT
+      });
+      return output.length > header.length;
+    } catch (error: any) {
+      // 输出超出上限说明数据可以正常解压且压缩率很高
+      return error.code === 'ERR_BUFFER_TOO_LARGE';
+    }
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * 编译后的glob模式
+ */
+interface CompiledPattern {
+  pattern: string;
+  regex: RegExp;
+  matchBaseName: boolean;
+  matched: boolean;
+}
+
+/**
+ * Glob模式匹配器
+ * 支持 *、**、?、[abc] 和 {a,b} 语法；不含'/'的模式同时匹配任意层级的文件名
+ */
+export class GlobMatcher {
+  private patterns: CompiledPattern[];
+
+  constructor(patterns: string[] = []) {
+    this.patterns = patterns
+      .map(pattern => pattern.trim())
+      .filter(pattern => pattern.length > 0)
+      .map(pattern => {
+        const normalized = GlobMatcher.normalizePath(pattern);
+        return {
+          pattern,
+          regex: GlobMatcher.toRegExp(normalized),
+          matchBaseName: !normalized.includes('/'),
+          matched: false
+        };
+      });
+  }
+
+  /**
+   * 是否没有任何模式
+   */
+  isEmpty(): boolean {
+    return this.patterns.length === 0;
+  }
+
+  /**
+   * 检查路径是否匹配任一模式，并记录命中的模式
+   */
+  matches(entryPath: string): boolean {
+    const normalized = GlobMatcher.normalizePath(entryPath);
+    const baseName = normalized.slice(normalized.lastIndexOf('/') + 1);
+
+    let result = false;
+    for (const compiled of this.patterns) {
+      if (compiled.regex.test(normalized) || (compiled.matchBaseName && compiled.regex.test(baseName))) {
+        compiled.matched = true;
+        result = true;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 获取从未命中任何路径的模式
+   */
+  getUnmatchedPatterns(): string[] {
+    return this.patterns.filter(compiled => !compiled.matched).map(compiled => compiled.pattern);
+  }
+
+  /**
+   * 规范化归档内路径：统一分隔符，去除开头的'./'和结尾的'/'
+   */
+  static normalizePath(entryPath: string): string {
+    return entryPath
+      .replace(/\\/g, '/')
+      .replace(/^(\.\/)+/, '')
+      .replace(/\/+$/, '');
+  }
+
+  /**
+   * 将glob模式转换为正则表达式
+   */
+  static toRegExp(pattern: string): RegExp {
+    let source = '';
+    let braceDepth = 0;
+
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i];
+
+      switch (char) {
+        case '*': {
+          if (pattern[i + 1] === '*') {
+            // '**' 可跨越目录层级；'**/' 也可以匹配零层目录
+            const atSegmentStart = i === 0 || pattern[i - 1] === '/';
+            i++;
+            if (atSegmentStart && pattern[i + 1] === '/') {
+              i++;
+              source += '(?:.*/)?';
+            } else {
+              source += '.*';
+            }
+          } else {
+            source += '[^/]*';
+          }
+          break;
+        }
+        case '?':
+          source += '[^/]';
+          break;
+        case '[': {
+          const end = pattern.indexOf(']', i + 1);
+          if (end === -1) {
+            source += '\\[';
+          } else {
+            let set = pattern.slice(i + 1, end).replace(/\\/g, '\\\\');
+            if (set.startsWith('!')) {
+              set = '^' + set.slice(1);
+            }
+            source += `[${set}]`;
+            i = end;
+          }
+          break;
+        }
+        case '{':
+          braceDepth++;
+          source += '(?:';
+          break;
+        case '}':
+          if (braceDepth > 0) {
+            braceDepth--;
+            source += ')';
+          } else {
+            source += '\\}';
+          }
+          break;
+        case ',':
+          source += braceDepth > 0 ? '|' : ',';
+          break;
+        default:
+          source += char.replace(/[.+^$()|\\]/g, '\\$&');
+      }
+    }
+
+    return new RegExp(`^${source}$`);
+  }
+}
@@ -0,0 +1,116 @@
+import fs from 'fs';
+import { SkippedEntry } from './extraction-guard.js';
+
+/**
+ * 解压条目记录的元数据，归档没有记录的字段为空
+ */
+export interface EntryMetadata {
+  mode?: number;  // 权限位，包括setuid、setgid和sticky位
+  mtime?: Date;
+  uid?: number;
+  gid?: number;
+}
+
+/**
+ * 元数据恢复结果
+ */
+export interface MetadataReport {
+  preserveOwnership: boolean;
+  ownershipErrors: SkippedEntry[];  // 所有者未能恢复的条目及原因
+}
+
+/**
+ * 已延后恢复元数据的目录
+ */
+interface DeferredDirectory {
+  entryName: string;
+  metadata: EntryMetadata;
+}
+
+/**
+ * 解压条目元数据恢复器
+ * 恢复权限位和修改时间；preserveOwnership时恢复uid/gid，默认只在以root运行时恢复。
+ * 所有者未恢复的文件去掉setuid/setgid位，避免解压出以其他用户身份运行的程序
+ */
+export class MetadataRestorer {
+  private preserveOwnership: boolean;
+  private directories = new Map<string, DeferredDirectory>();
+  private ownershipErrors: SkippedEntry[] = [];
+
+  constructor(preserveOwnership?: boolean) {
+    this.preserveOwnership = preserveOwnership ?? process.getuid?.() === 0;
+  }
+
+  /**
+   * 恢复文件或符号链接的元数据；符号链接没有独立的权限位，只恢复所有者和修改时间
+   * @param entryName 归档内的条目名，用于报告所有者未能恢复的条目
+   */
+  async restore(filePath: string, entryName: string, metadata: EntryMetadata, isSymlink = false): Promise<void> {
+    // 修改所有者会清除setuid/setgid位，因此先恢复所有者再恢复权限位
+    const ownerRestored = await this.restoreOwnership(filePath, entryName, metadata, isSymlink);
+    if (!isSymlink && metadata.mode !== undefined) {
+      await fs.promises.chmod(filePath, metadata.mode & (ownerRestored ? 0o7777 : 0o1777));
+    }
+    if (metadata.mtime) {
+      await (isSymlink ? fs.promises.lutimes : fs.promises.utimes)(filePath, metadata.mtime, metadata.mtime);
+    }
+  }
+
+  /**
+   * 记录目录的元数据，在目录中的条目都写入后由restoreDirectories恢复，
+   * 避免只读目录无法写入子条目、写入子条目又改变目录的修改时间
+   */
+  deferDirectory(dirPath: string, entryName: string, metadata: EntryMetadata): void {
+    this.directories.set(dirPath, { entryName, metadata });
+  }
+
+  /**
+   * 恢复所有延后的目录元数据，子目录先于上级目录恢复
+   * @param resolvePath 返回目录的最终路径，返回null时不恢复（如合并到已存在的目录）
+   */
+  async restoreDirectories(resolvePath: (dirPath: string) => string | null): Promise<void> {
+    const dirPaths = [...this.directories.keys()].sort((a, b) => b.length - a.length);
+    for (const dirPath of dirPaths) {
+      const finalPath = resolvePath(dirPath);
+      if (finalPath) {
+        const { entryName, metadata } = this.directories.get(dirPath)!;
+        await this.restore(finalPath, entryName, metadata);
+      }
+    }
+  }
+
+  /**
+   * 生成元数据恢复结果
+   */
+  getReport(): MetadataReport {
+    return {
+      preserveOwnership: this.preserveOwnership,
+      ownershipErrors: this.ownershipErrors
+    };
+  }
+
+  /**
+   * 恢复uid/gid，没有权限时记录原因并继续解压
+   * @returns 所有者是否已恢复
+   */
+  private async restoreOwnership(
+    filePath: string,
+    entryName: string,
+    metadata: EntryMetadata,
+    isSymlink: boolean
+  ): Promise<boolean> {
+    if (!this.preserveOwnership || metadata.uid === undefined || metadata.gid === undefined) {
+      return false;
+    }
+    try {
+      await (isSymlink ? fs.promises.lchown : fs.promises.chown)(filePath, metadata.uid, metadata.gid);
+      return true;
+    } catch (error: any) {
+      if (error.code !== 'EPERM' && error.code !== 'EINVAL') {
+        throw error;
+      }
+      this.ownershipErrors.push({ path: entryName, reason: `cannot restore owner ${metadata.uid}:${metadata.gid} (${error.code})` });
+      return false;
+    }
+  }
+}
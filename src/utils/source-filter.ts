@@ -0,0 +1,223 @@
+import fs from 'fs';
+import path from 'path';
+import { EntryFilter, UnmatchedPatterns } from './entry-filter.js';
+import { GlobMatcher } from './glob-matcher.js';
+
+/**
+ * 压缩文件夹时选择条目的选项
+ */
+export interface SourceFilterOptions {
+  include?: string[];      // 只打包匹配这些glob模式的文件（按相对于源文件夹的路径匹配）
+  exclude?: string[];      // 不打包匹配这些glob模式的文件和文件夹
+  ignoreFiles?: string[];  // 按.gitignore语法读取的忽略文件名，如.gitignore、.npmignore
+}
+
+/**
+ * 被排除条目的统计
+ */
+export interface SourceFilterReport {
+  excludedFiles: number;
+  excludedSize: number;
+  unmatchedPatterns: UnmatchedPatterns;
+}
+
+/**
+ * 忽略文件中的一条规则
+ */
+interface IgnoreRule {
+  regex: RegExp;
+  negated: boolean;        // '!'开头的规则重新包含之前被忽略的路径
+  directoryOnly: boolean;  // '/'结尾的规则只匹配目录
+  anchored: boolean;       // 含'/'的规则相对于忽略文件所在目录匹配，否则匹配任意层级的名称
+}
+
+/**
+ * 压缩源过滤器
+ * 遍历源文件夹时排除匹配exclude模式或忽略文件规则的条目（被排除的目录不再遍历），
+ * 设置include时只保留匹配的文件及包含它们的目录；同时统计被排除的文件数和字节数
+ */
+export class SourceFilter {
+  private include: EntryFilter;
+  private exclude: EntryFilter;
+  private ignoreFiles: string[];
+  // 各目录（相对路径，根目录为''）中忽略文件的规则
+  private ignoreRules = new Map<string, IgnoreRule[]>();
+  private excludedPaths: string[] = [];
+  private excludedFiles = 0;
+  private excludedSize = 0;
+
+  constructor(options: SourceFilterOptions = {}) {
+    this.include = new EntryFilter(options.include);
+    this.exclude = new EntryFilter(options.exclude);
+    this.ignoreFiles = options.ignoreFiles || [];
+    for (const name of this.ignoreFiles) {
+      if (!name || name.includes('/') || name.includes('\\')) {
+        throw new Error(`Ignore file must be a file name without path separators: ${name}`);
+      }
+    }
+  }
+
+  /**
+   * 是否没有任何过滤条件
+   */
+  isEmpty(): boolean {
+    return this.include.isEmpty() && this.exclude.isEmpty() && this.ignoreFiles.length === 0;
+  }
+
+  /**
+   * 读取目录中的忽略文件，遍历目录内容之前调用
+   */
+  async loadIgnoreFiles(absoluteDir: string, relativeDir: string): Promise<void> {
+    const rules: IgnoreRule[] = [];
+    for (const name of this.ignoreFiles) {
+      let content: string;
+      try {
+        content = await fs.promises.readFile(path.join(absoluteDir, name), 'utf8');
+      } catch {
+        continue;
+      }
+      rules.push(...SourceFilter.parseIgnoreFile(content));
+    }
+    if (rules.length > 0) {
+      this.ignoreRules.set(relativeDir, rules);
+    }
+  }
+
+  /**
+   * 检查条目是否保留；include只检查文件，目录由keepsDirectory在遍历后决定
+   */
+  accepts(relativePath: string, isDirectory: boolean): boolean {
+    if (!this.exclude.isEmpty() && this.exclude.matches(relativePath)) {
+      return false;
+    }
+    if (this.isIgnored(relativePath, isDirectory)) {
+      return false;
+    }
+    return isDirectory || this.include.matches(relativePath);
+  }
+
+  /**
+   * 设置include时，没有保留任何内容的目录只有自身匹配include才保留
+   */
+  keepsDirectory(relativePath: string): boolean {
+    return this.include.isEmpty() || this.include.matches(relativePath);
+  }
+
+  /**
+   * 记录被排除的条目，被排除的目录统计其中的所有文件
+   */
+  async recordExcluded(absolutePath: string, relativePath: string, stats: fs.Stats): Promise<void> {
+    this.excludedPaths.push(relativePath);
+    if (stats.isDirectory()) {
+      await this.countDirectory(absolutePath);
+    } else {
+      this.excludedFiles++;
+      this.excludedSize += stats.isFile() ? stats.size : 0;
+    }
+  }
+
+  /**
+   * 记录因不含保留内容而被移除的目录，其中的文件已逐个统计
+   */
+  recordExcludedDirectory(relativePath: string): void {
+    this.excludedPaths.push(relativePath);
+  }
+
+  /**
+   * 获取被排除的最上层条目的相对路径（被排除目录中的条目不单独列出）
+   */
+  getExcludedPaths(): string[] {
+    return this.excludedPaths;
+  }
+
+  /**
+   * 生成过滤统计
+   */
+  getReport(): SourceFilterReport {
+    return {
+      excludedFiles: this.excludedFiles,
+      excludedSize: this.excludedSize,
+      unmatchedPatterns: {
+        include: this.include.getUnmatchedPatterns().include,
+        exclude: this.exclude.getUnmatchedPatterns().include
+      }
+    };
+  }
+
+  /**
+   * 按忽略文件规则检查路径：从根目录到最近的上级目录依次应用各忽略文件，最后匹配的规则生效
+   */
+  private isIgnored(relativePath: string, isDirectory: boolean): boolean {
+    if (this.ignoreRules.size === 0) {
+      return false;
+    }
+
+    const segments = relativePath.split('/');
+    const baseName = segments[segments.length - 1];
+    let ignored = false;
+    for (let depth = 0; depth < segments.length; depth++) {
+      const rules = this.ignoreRules.get(segments.slice(0, depth).join('/'));
+      if (!rules) {
+        continue;
+      }
+      const localPath = segments.slice(depth).join('/');
+      for (const rule of rules) {
+        if (rule.directoryOnly && !isDirectory) {
+          continue;
+        }
+        if (rule.regex.test(rule.anchored ? localPath : baseName)) {
+          ignored = !rule.negated;
+        }
+      }
+    }
+    return ignored;
+  }
+
+  /**
+   * 统计被排除目录中的文件数和字节数，不跟随符号链接
+   */
+  private async countDirectory(dirPath: string): Promise<void> {
+    const dirents = await fs.promises.readdir(dirPath, { withFileTypes: true });
+    for (const dirent of dirents) {
+      const childPath = path.join(dirPath, dirent.name);
+      if (dirent.isDirectory()) {
+        await this.countDirectory(childPath);
+      } else {
+        this.excludedFiles++;
+        this.excludedSize += dirent.isFile() ? (await fs.promises.lstat(childPath)).size : 0;
+      }
+    }
+  }
+
+  /**
+   * 解析.gitignore语法的忽略文件
+   */
+  private static parseIgnoreFile(content: string): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+    for (const line of content.split(/\r?\n/)) {
+      // 空行和'#'开头的注释行忽略，行尾未转义的空格去除
+      let pattern = line.replace(/(?<!\\)\s+$/, '');
+      if (!pattern || pattern.startsWith('#')) {
+        continue;
+      }
+
+      const negated = pattern.startsWith('!');
+      if (negated) {
+        pattern = pattern.slice(1);
+      } else if (pattern.startsWith('\\#') || pattern.startsWith('\\!')) {
+        pattern = pattern.slice(1);
+      }
+
+      const directoryOnly = pattern.endsWith('/');
+      pattern = pattern.replace(/\/+$/, '');
+      const anchored = pattern.includes('/');
+      pattern = pattern.replace(/^\/+/, '');
+      if (!pattern) {
+        continue;
+      }
+
+      rules.push({ regex: GlobMatcher.toRegExp(pattern), negated, directoryOnly, anchored });
+    }
+    return rules;
+  }
+}
@@ -0,0 +1,298 @@
+import crypto from 'crypto';
+import { Transform, TransformCallback } from 'stream';
+
+// ZIP加密方式
+export type ZipEncryptionMethod = 'aes256' | 'zipcrypto';
+
+// 条目使用WinZip AES加密时的压缩方式编号
+export const ZIP_METHOD_AES = 99;
+
+// WinZip AES加密信息扩展字段
+export const ZIP_AES_EXTRA_FIELD_ID = 0x9901;
+
+// ZipCrypto加密头长度
+const ZIP_CRYPTO_HEADER_SIZE = 12;
+
+// WinZip AES的密钥派生迭代次数、密码校验值和认证码长度
+const AES_KEY_ITERATIONS = 1000;
+const AES_PASSWORD_VERIFIER_SIZE = 2;
+const AES_AUTH_CODE_SIZE = 10;
+const AES_BLOCK_SIZE = 16;
+
+// AES强度编号与密钥长度（字节）的对应关系
+const AES_KEY_SIZES: Record<number, number> = { 1: 16, 2: 24, 3: 32 };
+
+// CRC32查找表，ZipCrypto的密钥更新使用CRC32算法
+const CRC_TABLE = new Uint32Array(256).map((_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+/**
+ * 密码错误时抛出的错误，与数据损坏区分
+ */
+export class WrongPasswordError extends Error {
+  constructor(entryName: string) {
+    super(`Wrong password for encrypted entry: ${entryName}`);
+    this.name = 'WrongPasswordError';
+  }
+}
+
+/**
+ * 加密条目的数据校验失败时抛出的错误
+ */
+export class EncryptedDataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EncryptedDataError';
+  }
+}
+
+/**
+ * WinZip AES加密扩展字段中的信息
+ */
+export interface ZipAesInfo {
+  version: number;       // 1为AE-1（保留CRC），2为AE-2（CRC为0）
+  strength: number;      // 1/2/3分别对应AES-128/192/256
+  actualMethod: number;  // 加密前数据的实际压缩方式
+}
+
+/**
+ * 传统PKWARE加密（ZipCrypto）的密钥状态
+ * 安全性较弱，仅为兼容不支持AES的解压工具而提供
+ */
+class ZipCryptoKeys {
+  private keys = new Uint32Array([0x12345678, 0x23456789, 0x34567890]);
+
+  constructor(password: string) {
+    for (const byte of Buffer.from(password, 'utf8')) {
+      this.update(byte);
+    }
+  }
+
+  /**
+   * 加密数据（原地修改）
+   */
+  encrypt(data: Buffer): Buffer {
+    for (let i = 0; i < data.length; i++) {
+      const plain = data[i];
+      data[i] = plain ^ this.streamByte();
+      this.update(plain);
+    }
+    return data;
+  }
+
+  /**
+   * 解密数据（原地修改）
+   */
+  decrypt(data: Buffer): Buffer {
+    for (let i = 0; i < data.length; i++) {
+      data[i] ^= this.streamByte();
+      this.update(data[i]);
+    }
+    return data;
+  }
+
+  private streamByte(): number {
+    const temp = (this.keys[2] | 2) >>> 0;
+    return (Math.imul(temp, temp ^ 1) >>> 8) & 0xff;
+  }
+
+  private update(byte: number): void {
+    this.keys[0] = CRC_TABLE[(this.keys[0] ^ byte) & 0xff] ^ (this.keys[0] >>> 8);
+    this.keys[1] = Math.imul((this.keys[1] + (this.keys[0] & 0xff)) >>> 0, 134775813) + 1;
+    this.keys[2] = CRC_TABLE[(this.keys[2] ^ (this.keys[1] >>> 24)) & 0xff] ^ (this.keys[2] >>> 8);
+  }
+}
+
+/**
+ * WinZip AES使用的CTR模式：计数器为小端序且从1开始，与标准AES-CTR不同，因此手动生成密钥流
+ */
+class WinZipAesCtr {
+  private cipher: crypto.Cipher;
+  private counter = Buffer.alloc(AES_BLOCK_SIZE);
+  private keyStream = Buffer.alloc(AES_BLOCK_SIZE);
+  private keyStreamOffset = AES_BLOCK_SIZE;
+
+  constructor(key: Buffer) {
+    this.cipher = crypto.createCipheriv(`aes-${key.length * 8}-ecb`, key, null);
+    this.cipher.setAutoPadding(false);
+  }
+
+  /**
+   * 对数据进行加解密（CTR模式下两者相同），可分多次调用，数据块不需要按16字节对齐
+   */
+  process(data: Buffer): Buffer {
+    const output = Buffer.alloc(data.length);
+    for (let i = 0; i < data.length; i++) {
+      if (this.keyStreamOffset === AES_BLOCK_SIZE) {
+        this.incrementCounter();
+        this.keyStream = this.cipher.update(this.counter);
+        this.keyStreamOffset = 0;
+      }
+      output[i] = data[i] ^ this.keyStream[this.keyStreamOffset++];
+    }
+    return output;
+  }
+
+  private incrementCounter(): void {
+    for (let i = 0; i < AES_BLOCK_SIZE; i++) {
+      this.counter[i] = (this.counter[i] + 1) & 0xff;
+      if (this.counter[i] !== 0) {
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * ZIP条目加解密
+ */
+export class ZipCrypto {
+  /**
+   * 创建ZipCrypto加密流，输出加密头和加密后的条目数据
+   * @param checkByte 加密头最后一个字节的校验值（CRC32或修改时间的最高字节），解压时用于检查密码
+   */
+  static createZipCryptoStream(password: string, checkByte: number): Transform {
+    const keys = new ZipCryptoKeys(password);
+    const header = crypto.randomBytes(ZIP_CRYPTO_HEADER_SIZE);
+    header[ZIP_CRYPTO_HEADER_SIZE - 1] = checkByte;
+
+    const stream = new Transform({
+      transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+        callback(null, keys.encrypt(Buffer.from(chunk)));
+      }
+    });
+    stream.push(keys.encrypt(header));
+    return stream;
+  }
+
+  /**
+   * 解密ZipCrypto加密的条目数据
+   * 加密头校验字节只能排除约255/256的错误密码，调用方仍需校验解压后的CRC32
+   */
+  static decryptZipCrypto(data: Buffer, password: string, checkByte: number, entryName: string): Buffer {
+    if (data.length < ZIP_CRYPTO_HEADER_SIZE) {
+      throw new EncryptedDataError(`Encrypted entry is truncated: ${entryName}`);
+    }
+
+    const keys = new ZipCryptoKeys(password);
+    const header = keys.decrypt(Buffer.from(data.subarray(0, ZIP_CRYPTO_HEADER_SIZE)));
+    if (header[ZIP_CRYPTO_HEADER_SIZE - 1] !== checkByte) {
+      throw new WrongPasswordError(entryName);
+    }
+
+    return keys.decrypt(Buffer.from(data.subarray(ZIP_CRYPTO_HEADER_SIZE)));
+  }
+
+  /**
+   * 创建WinZip AES-256（AE-2）加密流
+   * 依次输出盐值、密码校验值、密文和认证码
+   */
+  static createAesStream(password: string): Transform {
+    const salt = crypto.randomBytes(AES_KEY_SIZES[3] / 2);
+    const { key, hmacKey, verifier } = ZipCrypto.deriveAesKeys(password, salt, AES_KEY_SIZES[3]);
+    const ctr = new WinZipAesCtr(key);
+    const hmac = crypto.createHmac('sha1', hmacKey);
+
+    const stream = new Transform({
+      transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+        const encrypted = ctr.process(chunk);
+        hmac.update(encrypted);
+        callback(null, encrypted);
+      },
+      flush(callback: TransformCallback) {
+        callback(null, hmac.digest().subarray(0, AES_AUTH_CODE_SIZE));
+      }
+    });
+    stream.push(Buffer.concat([salt, verifier]));
+    return stream;
+  }
+
+  /**
+   * 解密WinZip AES加密的条目数据
+   * 先用密码校验值判断密码是否正确，再用HMAC认证码检查数据是否被篡改或损坏
+   */
+  static decryptAes(data: Buffer, password: string, strength: number, entryName: string): Buffer {
+    const keySize = AES_KEY_SIZES[strength];
+    if (!keySize) {
+      throw new EncryptedDataError(`Unsupported AES strength ${strength} for entry: ${entryName}`);
+    }
+
+    const saltSize = keySize / 2;
+    const dataStart = saltSize + AES_PASSWORD_VERIFIER_SIZE;
+    const dataEnd = data.length - AES_AUTH_CODE_SIZE;
+    if (dataEnd < dataStart) {
+      throw new EncryptedDataError(`Encrypted entry is truncated: ${entryName}`);
+    }
+
+    const salt = data.subarray(0, saltSize);
+    const { key, hmacKey, verifier } = ZipCrypto.deriveAesKeys(password, salt, keySize);
+    if (!verifier.equals(data.subarray(saltSize, dataStart))) {
+      throw new WrongPasswordError(entryName);
+    }
+
+    const encrypted = data.subarray(dataStart, dataEnd);
+    const authCode = crypto.createHmac('sha1', hmacKey).update(encrypted).digest().subarray(0, AES_AUTH_CODE_SIZE);
+    if (!crypto.timingSafeEqual(authCode, data.subarray(dataEnd))) {
+      throw new EncryptedDataError(`Authentication failed for encrypted entry (data is corrupted): ${entryName}`);
+    }
+
+    return new WinZipAesCtr(key).process(encrypted);
+  }
+
+  /**
+   * 生成AES-256加密条目的扩展字段
+   */
+  static createAesExtraField(actualMethod: number): Buffer {
+    const field = Buffer.alloc(11);
+    field.writeUInt16LE(ZIP_AES_EXTRA_FIELD_ID, 0);
+    field.writeUInt16LE(7, 2);
+    field.writeUInt16LE(2, 4);
+    field.write('AE', 6, 'latin1');
+    field.writeUInt8(3, 8);
+    field.writeUInt16LE(actualMethod, 9);
+    return field;
+  }
+
+  /**
+   * 从扩展字段中解析WinZip AES加密信息，不存在时返回null
+   */
+  static parseAesExtraField(extra: Buffer): ZipAesInfo | null {
+    let offset = 0;
+    while (offset + 4 <= extra.length) {
+      const id = extra.readUInt16LE(offset);
+      const size = extra.readUInt16LE(offset + 2);
+      if (id === ZIP_AES_EXTRA_FIELD_ID && size >= 7 && offset + 4 + size <= extra.length) {
+        return {
+          version: extra.readUInt16LE(offset + 4),
+          strength: extra.readUInt8(offset + 8),
+          actualMethod: extra.readUInt16LE(offset + 9)
+        };
+      }
+      offset += 4 + size;
+    }
+    return null;
+  }
+
+  /**
+   * 按WinZip AES规范用PBKDF2-HMAC-SHA1派生加密密钥、HMAC密钥和密码校验值
+   */
+  private static deriveAesKeys(password: string, salt: Buffer, keySize: number) {
+    const derived = crypto.pbkdf2Sync(
+      Buffer.from(password, 'utf8'),
+      salt,
+      AES_KEY_ITERATIONS,
+      keySize * 2 + AES_PASSWORD_VERIFIER_SIZE,
+      'sha1'
+    );
+    return {
+      key: derived.subarray(0, keySize),
+      hmacKey: derived.subarray(keySize, keySize * 2),
+      verifier: derived.subarray(keySize * 2)
+    };
+  }
+}
@@ -0,0 +1,447 @@
+import { once } from 'events';
+import { Duplex, Readable, Transform, TransformCallback, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { crc32, createDeflateRaw } from 'zlib';
+import { ZIP_METHOD_AES, ZipCrypto, ZipEncryptionMethod } from './zip-crypto.js';
+
+// ZIP记录签名
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06064b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIGNATURE = 0x07064b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+
+// 通用标志位：加密、使用数据描述符、文件名使用UTF-8编码
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8 = 0x0800;
+
+// 压缩方式
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+// 外部属性高16位中的Unix文件类型
+const UNIX_TYPE_FILE = 0o100000;
+const UNIX_TYPE_SYMLINK = 0o120000;
+
+// 解压所需版本：2.0为DEFLATE和ZipCrypto，4.5为ZIP64，5.1为AES加密
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+const VERSION_AES = 51;
+
+// 创建系统为Unix，外部属性高16位保存文件模式
+const VERSION_MADE_BY = (3 << 8) | VERSION_AES;
+
+// ZIP64扩展字段标识；大小、偏移量和条目数达到以下值时需要ZIP64记录
+const ZIP64_EXTRA_FIELD_ID = 0x0001;
+const ZIP64_LIMIT = 0xffffffff;
+const ZIP64_ENTRY_COUNT_LIMIT = 0xffff;
+
+// Info-ZIP扩展时间戳字段标识，以Unix秒数记录修改时间（不受MS-DOS时间的时区和2秒精度限制）
+const EXTENDED_TIMESTAMP_EXTRA_FIELD_ID = 0x5455;
+
+// ZIP写入选项
+export interface ZipWriterOptions {
+  compressionLevel?: number;  // 0为STORE，1-9为DEFLATE级别
+  password?: string;
+  encryptionMethod?: ZipEncryptionMethod;
+}
+
+// 条目属性
+export interface ZipEntryOptions {
+  mtime?: Date;
+  mode?: number;
+}
+
+// 从已有归档中原样复制的条目信息
+export interface ZipRawEntry {
+  versionMadeBy: number;
+  versionNeeded: number;
+  flags: number;
+  method: number;
+  mtime: Date;
+  crc: number;
+  size: number;
+  externalAttributes: number;
+  extra: Buffer;
+}
+
+/**
+ * 中央目录中需要的条目信息
+ */
+interface CentralDirectoryRecord {
+  name: Buffer;
+  extra: Buffer;
+  versionMadeBy: number;
+  versionNeeded: number;
+  flags: number;
+  method: number;
+  dosTime: number;
+  dosDate: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  externalAttributes: number;
+  offset: number;
+}
+
+/**
+ * ZIP归档写入器
+ * 文件内容从流中读取，边压缩（和加密）边写入输出流，CRC和压缩后大小记录在数据描述符中，
+ * 内存占用与文件大小无关；条目或归档超过4 GB、条目超过65535个时写入ZIP64记录
+ * 支持ZipCrypto和WinZip AES-256加密；修改已有归档时也由此写入器复制原有条目并写入新条目
+ */
+export class ZipWriter {
+  private output: Writable;
+  private options: ZipWriterOptions;
+  private records: CentralDirectoryRecord[] = [];
+  private offset = 0;
+
+  constructor(output: Writable, options: ZipWriterOptions = {}) {
+    this.output = output;
+    this.options = options;
+  }
+
+  /**
+   * 从流中读取并添加文件条目
+   * @param size 文件大小，用于判断本地文件头是否需要ZIP64扩展字段
+   * @param onData 每读取一块原始数据时调用，用于报告进度
+   */
+  async addFile(
+    name: string,
+    source: Readable,
+    size: number,
+    entryOptions: ZipEntryOptions = {},
+    onData?: (chunk: Buffer) => void
+  ): Promise<void> {
+    const mode = UNIX_TYPE_FILE | ((entryOptions.mode ?? 0o644) & 0o7777);
+    await this.addStream(name, source, size, mode, entryOptions, onData);
+  }
+
+  /**
+   * 添加符号链接条目，条目内容为链接目标，Unix文件类型记录在外部属性中
+   */
+  async addSymlink(name: string, linkTarget: string, entryOptions: ZipEntryOptions = {}): Promise<void> {
+    const target = Buffer.from(linkTarget, 'utf8');
+    await this.addStream(name, Readable.from([target]), target.length, UNIX_TYPE_SYMLINK | 0o777, entryOptions);
+  }
+
+  /**
+   * 从流中读取条目内容并写入，压缩、加密和CRC计算都在管道中完成
+   * @param unixMode 记录在外部属性高16位中的Unix文件类型和权限
+   */
+  private async addStream(
+    name: string,
+    source: Readable,
+    size: number,
+    unixMode: number,
+    entryOptions: ZipEntryOptions,
+    onData?: (chunk: Buffer) => void
+  ): Promise<void> {
+    const level = this.options.compressionLevel ?? 6;
+    // 空文件无需压缩，直接使用STORE
+    const method = level > 0 && size > 0 ? METHOD_DEFLATE : METHOD_STORE;
+    const mtime = entryOptions.mtime || new Date();
+    const dosDateTime = ZipWriter.toDosDateTime(mtime);
+    const zip64 = ZipWriter.getMaxStoredSize(size) >= ZIP64_LIMIT;
+    const transforms: Duplex[] = method === METHOD_DEFLATE ? [createDeflateRaw({ level })] : [];
+
+    let recordMethod = method;
+    let flags = FLAG_UTF8 | FLAG_DATA_DESCRIPTOR;
+    let versionNeeded = zip64 ? VERSION_ZIP64 : VERSION_DEFAULT;
+    let extra: Buffer = Buffer.alloc(0);
+
+    if (this.options.password) {
+      flags |= FLAG_ENCRYPTED;
+      if ((this.options.encryptionMethod || 'aes256') === 'aes256') {
+        // AE-2格式不记录CRC，由HMAC认证码保证完整性
+        transforms.push(ZipCrypto.createAesStream(this.options.password));
+        recordMethod = ZIP_METHOD_AES;
+        versionNeeded = VERSION_AES;
+        extra = ZipCrypto.createAesExtraField(method);
+      } else {
+        // 使用数据描述符时CRC在加密后才能确定，加密头的校验字节取自修改时间的高字节
+        transforms.push(ZipCrypto.createZipCryptoStream(this.options.password, dosDateTime.dosTime >>> 8));
+      }
+    }
+
+    const record: CentralDirectoryRecord = {
+      name: Buffer.from(name, 'utf8'),
+      extra: Buffer.concat([extra, ZipWriter.createTimestampExtraField(mtime)]),
+      versionMadeBy: VERSION_MADE_BY,
+      versionNeeded,
+      flags,
+      method: recordMethod,
+      ...dosDateTime,
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+      externalAttributes: ((unixMode << 16) >>> 0),
+      offset: this.offset
+    };
+    await this.writeLocalHeader(record, zip64);
+
+    let crc = 0;
+    const dataOffset = this.offset;
+    await pipeline([
+      source,
+      new Transform({
+        transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+          crc = crc32(chunk, crc);
+          record.size += chunk.length;
+          onData?.(chunk);
+          callback(null, chunk);
+        }
+      }),
+      ...transforms,
+      new Writable({
+        write: (chunk: Buffer, _encoding: BufferEncoding, callback: (error?: Error | null) => void) => {
+          this.write(chunk).then(() => callback(), callback);
+        }
+      })
+    ]);
+
+    record.compressedSize = this.offset - dataOffset;
+    record.crc = recordMethod === ZIP_METHOD_AES ? 0 : crc;
+    if (!zip64 && (record.size >= ZIP64_LIMIT || record.compressedSize >= ZIP64_LIMIT)) {
+      throw new Error(`File grew beyond 4 GB while it was being compressed: ${name}`);
+    }
+
+    // 数据描述符：ZIP64条目的大小为8字节
+    const descriptor = Buffer.alloc(zip64 ? 24 : 16);
+    descriptor.writeUInt32LE(DATA_DESCRIPTOR_SIGNATURE, 0);
+    descriptor.writeUInt32LE(record.crc, 4);
+    if (zip64) {
+      descriptor.writeBigUInt64LE(BigInt(record.compressedSize), 8);
+      descriptor.writeBigUInt64LE(BigInt(record.size), 16);
+    } else {
+      descriptor.writeUInt32LE(record.compressedSize, 8);
+      descriptor.writeUInt32LE(record.size, 12);
+    }
+    await this.write(descriptor);
+  }
+
+  /**
+   * 添加目录条目（名称以/结尾）
+   */
+  async addDirectory(name: string, entryOptions: ZipEntryOptions = {}): Promise<void> {
+    const mode = entryOptions.mode ?? 0o755;
+    const mtime = entryOptions.mtime || new Date();
+    await this.writeLocalHeader({
+      name: Buffer.from(name.endsWith('/') ? name : `${name}/`, 'utf8'),
+      extra: ZipWriter.createTimestampExtraField(mtime),
+      versionMadeBy: VERSION_MADE_BY,
+      versionNeeded: VERSION_DEFAULT,
+      flags: FLAG_UTF8,
+      method: METHOD_STORE,
+      ...ZipWriter.toDosDateTime(mtime),
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+      // 低位的0x10为MS-DOS目录属性
+      externalAttributes: ((((0o040000 | (mode & 0o7777)) << 16) | 0x10) >>> 0),
+      offset: this.offset
+    });
+  }
+
+  /**
+   * 原样复制已压缩（或已加密）的条目数据，不重新压缩或加密
+   * 原条目使用数据描述符时同样在数据后写入描述符，ZipCrypto的校验字节取决于该标志位
+   * 原有的ZIP64扩展字段被移除，中央目录中的ZIP64字段按新归档中的偏移量重新生成
+   */
+  async addRawEntry(name: Buffer, entry: ZipRawEntry, payload: Buffer): Promise<void> {
+    await this.writeLocalHeader({
+      name,
+      extra: ZipWriter.removeExtraField(entry.extra, ZIP64_EXTRA_FIELD_ID),
+      versionMadeBy: entry.versionMadeBy,
+      versionNeeded: entry.versionNeeded,
+      flags: entry.flags,
+      method: entry.method,
+      ...ZipWriter.toDosDateTime(entry.mtime),
+      crc: entry.crc,
+      compressedSize: payload.length,
+      size: entry.size,
+      externalAttributes: entry.externalAttributes,
+      offset: this.offset
+    });
+    await this.write(payload);
+
+    if (entry.flags & FLAG_DATA_DESCRIPTOR) {
+      const descriptor = Buffer.alloc(16);
+      descriptor.writeUInt32LE(DATA_DESCRIPTOR_SIGNATURE, 0);
+      descriptor.writeUInt32LE(entry.crc, 4);
+      descriptor.writeUInt32LE(payload.length, 8);
+      descriptor.writeUInt32LE(entry.size, 12);
+      await this.write(descriptor);
+    }
+  }
+
+  /**
+   * 写入中央目录并结束输出流
+   */
+  async finalize(): Promise<void> {
+    const centralDirectoryOffset = this.offset;
+
+    for (const record of this.records) {
+      // 超出32位范围的大小和偏移量写入ZIP64扩展字段，顺序固定为原始大小、压缩后大小、偏移量
+      const zip64Values = [record.size, record.compressedSize, record.offset].filter(value => value >= ZIP64_LIMIT);
+      let extra = record.extra;
+      if (zip64Values.length > 0) {
+        const field = Buffer.alloc(4 + zip64Values.length * 8);
+        field.writeUInt16LE(ZIP64_EXTRA_FIELD_ID, 0);
+        field.writeUInt16LE(zip64Values.length * 8, 2);
+        zip64Values.forEach((value, index) => field.writeBigUInt64LE(BigInt(value), 4 + index * 8));
+        extra = Buffer.concat([field, extra]);
+      }
+
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(CENTRAL_DIRECTORY_SIGNATURE, 0);
+      header.writeUInt16LE(record.versionMadeBy, 4);
+      header.writeUInt16LE(zip64Values.length > 0 ? Math.max(record.versionNeeded, VERSION_ZIP64) : record.versionNeeded, 6);
+      header.writeUInt16LE(record.flags, 8);
+      header.writeUInt16LE(record.method, 10);
+      header.writeUInt16LE(record.dosTime, 12);
+      header.writeUInt16LE(record.dosDate, 14);
+      header.writeUInt32LE(record.crc, 16);
+      header.writeUInt32LE(Math.min(record.compressedSize, ZIP64_LIMIT), 20);
+      header.writeUInt32LE(Math.min(record.size, ZIP64_LIMIT), 24);
+      header.writeUInt16LE(record.name.length, 28);
+      header.writeUInt16LE(extra.length, 30);
+      header.writeUInt32LE(record.externalAttributes, 38);
+      header.writeUInt32LE(Math.min(record.offset, ZIP64_LIMIT), 42);
+      await this.write(Buffer.concat([header, record.name, extra]));
+    }
+
+    const entryCount = this.records.length;
+    const centralDirectorySize = this.offset - centralDirectoryOffset;
+
+    if (entryCount >= ZIP64_ENTRY_COUNT_LIMIT || centralDirectorySize >= ZIP64_LIMIT || centralDirectoryOffset >= ZIP64_LIMIT) {
+      const zip64EndOffset = this.offset;
+      const zip64End = Buffer.alloc(56);
+      zip64End.writeUInt32LE(ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+      zip64End.writeBigUInt64LE(BigInt(zip64End.length - 12), 4);
+      zip64End.writeUInt16LE(VERSION_MADE_BY, 12);
+      zip64End.writeUInt16LE(VERSION_ZIP64, 14);
+      zip64End.writeBigUInt64LE(BigInt(entryCount), 24);
+      zip64End.writeBigUInt64LE(BigInt(entryCount), 32);
+      zip64End.writeBigUInt64LE(BigInt(centralDirectorySize), 40);
+      zip64End.writeBigUInt64LE(BigInt(centralDirectoryOffset), 48);
+
+      const locator = Buffer.alloc(20);
+      locator.writeUInt32LE(ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIGNATURE, 0);
+      locator.writeBigUInt64LE(BigInt(zip64EndOffset), 8);
+      locator.writeUInt32LE(1, 16);
+      await this.write(Buffer.concat([zip64End, locator]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+    end.writeUInt16LE(Math.min(entryCount, ZIP64_ENTRY_COUNT_LIMIT), 8);
+    end.writeUInt16LE(Math.min(entryCount, ZIP64_ENTRY_COUNT_LIMIT), 10);
+    end.writeUInt32LE(Math.min(centralDirectorySize, ZIP64_LIMIT), 12);
+    end.writeUInt32LE(Math.min(centralDirectoryOffset, ZIP64_LIMIT), 16);
+    await this.write(end);
+
+    this.output.end();
+    await once(this.output, 'finish');
+  }
+
+  /**
+   * 中止写入并关闭输出流
+   */
+  destroy(): void {
+    this.output.destroy();
+  }
+
+  /**
+   * 写入本地文件头，并记录中央目录信息
+   * ZIP64条目的本地文件头中大小为0xFFFFFFFF，实际大小记录在数据描述符中
+   */
+  private async writeLocalHeader(record: CentralDirectoryRecord, zip64 = false): Promise<void> {
+    let extra = record.extra;
+    if (zip64) {
+      const field = Buffer.alloc(20);
+      field.writeUInt16LE(ZIP64_EXTRA_FIELD_ID, 0);
+      field.writeUInt16LE(16, 2);
+      extra = Buffer.concat([field, extra]);
+    }
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(LOCAL_FILE_HEADER_SIGNATURE, 0);
+    header.writeUInt16LE(record.versionNeeded, 4);
+    header.writeUInt16LE(record.flags, 6);
+    header.writeUInt16LE(record.method, 8);
+    header.writeUInt16LE(record.dosTime, 10);
+    header.writeUInt16LE(record.dosDate, 12);
+    header.writeUInt32LE(record.crc, 14);
+    header.writeUInt32LE(zip64 ? ZIP64_LIMIT : record.compressedSize, 18);
+    header.writeUInt32LE(zip64 ? ZIP64_LIMIT : record.size, 22);
+    header.writeUInt16LE(record.name.length, 26);
+    header.writeUInt16LE(extra.length, 28);
+
+    this.records.push(record);
+    await this.write(Buffer.concat([header, record.name, extra]));
+  }
+
+  /**
+   * 写入数据并处理背压
+   */
+  private async write(data: Buffer): Promise<void> {
+    this.offset += data.length;
+    if (!this.output.write(data)) {
+      await once(this.output, 'drain');
+    }
+  }
+
+  /**
+   * 估算条目数据写入后的最大长度：不可压缩的数据经DEFLATE后略有增大（参考zlib的deflateBound），
+   * 加密会增加加密头、盐值和认证码
+   */
+  private static getMaxStoredSize(size: number): number {
+    return size + Math.ceil(size / 4096) + Math.ceil(size / 16384) + 64;
+  }
+
+  /**
+   * 从扩展字段数据中移除指定标识的字段
+   */
+  private static removeExtraField(extra: Buffer, fieldId: number): Buffer {
+    const fields: Buffer[] = [];
+    let offset = 0;
+    while (offset + 4 <= extra.length) {
+      const size = extra.readUInt16LE(offset + 2);
+      if (extra.readUInt16LE(offset) !== fieldId) {
+        fields.push(extra.subarray(offset, offset + 4 + size));
+      }
+      offset += 4 + size;
+    }
+    return Buffer.concat(fields);
+  }
+
+  /**
+   * 生成只含修改时间的扩展时间戳字段，超出32位Unix秒数范围时不生成
+   */
+  private static createTimestampExtraField(mtime: Date): Buffer {
+    const seconds = Math.floor(mtime.getTime() / 1000);
+    if (seconds < -0x80000000 || seconds > 0x7fffffff) {
+      return Buffer.alloc(0);
+    }
+    const field = Buffer.alloc(9);
+    field.writeUInt16LE(EXTENDED_TIMESTAMP_EXTRA_FIELD_ID, 0);
+    field.writeUInt16LE(5, 2);
+    field.writeUInt8(0x01, 4);  // 标志位：只包含修改时间
+    field.writeInt32LE(seconds, 5);
+    return field;
+  }
+
+  /**
+   * 转换为MS-DOS格式的日期和时间（本地时间，精度为2秒）
+   */
+  private static toDosDateTime(date: Date): { dosTime: number, dosDate: number } {
+    const year = Math.max(1980, date.getFullYear());
+    return {
+      dosTime: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+      dosDate: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+    };
+  }
+}
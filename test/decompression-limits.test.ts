@@ -0,0 +1,164 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { spawnSync } from 'child_process';
+import { SevenZipHandler } from '../src/handlers/7z-handler.js';
+import { BrotliHandler } from '../src/handlers/brotli-handler.js';
+import { GzipHandler } from '../src/handlers/gzip-handler.js';
+import { TarGzHandler } from '../src/handlers/tar-gz-handler.js';
+import { ZipHandler } from '../src/handlers/zip-handler.js';
+import { DecompressionLimitError, DecompressionLimiter } from '../src/utils/decompression-limits.js';
+
+const sevenZipAvailable = spawnSync(SevenZipHandler.resolveBinaryPath(), ['i']).status === 0;
+
+describe('DecompressionLimiter', () => {
+  it('limits the number of entries and their depth', () => {
+    const limiter = new DecompressionLimiter(100, { maxEntries: 2, maxDepth: 2 });
+    limiter.addEntry('a/b');
+    assert.throws(() => limiter.addEntry('a/b/c'), (error: any) => error instanceof DecompressionLimitError && error.limit === 'maxDepth');
+    assert.throws(() => limiter.addEntry('c'), (error: any) => error instanceof DecompressionLimitError && error.limit === 'maxEntries');
+  });
+
+  it('limits the total size and the expansion ratio', () => {
+    const sized = new DecompressionLimiter(100, { maxTotalSize: 10 });
+    sized.addBytes(10);
+    assert.throws(() => sized.addBytes(1), (error: any) => error.limit === 'maxTotalSize');
+
+    // 输出不超过1 MiB时不检查压缩比
+    const ratio = new DecompressionLimiter(1, { maxExpansionRatio: 10 });
+    ratio.addBytes(1024 * 1024);
+    assert.throws(() => ratio.addBytes(1), (error: any) => error.limit === 'maxExpansionRatio');
+  });
+});
+
+describe('decompression limits in handlers', () => {
+  let root: string;
+  let source: string;
+
+  before(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'decompression-limits-'));
+    source = path.join(root, 'source');
+    fs.mkdirSync(path.join(source, 'sub'), { recursive: true });
+    fs.writeFileSync(path.join(source, 'a.txt'), 'a'.repeat(4096));
+    fs.writeFileSync(path.join(source, 'sub', 'b.txt'), 'b'.repeat(4096));
+    fs.writeFileSync(path.join(source, 'sub', 'c.txt'), 'c'.repeat(4096));
+  });
+
+  after(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  /**
+   * 目标目录中只有已存在的文件，没有部分解压的文件或临时目录
+   */
+  function assertUntouched(targetDir: string): void {
+    assert.deepEqual(fs.readdirSync(targetDir), ['existing.txt']);
+    assert.equal(fs.readFileSync(path.join(targetDir, 'existing.txt'), 'utf8'), 'keep');
+  }
+
+  function createTargetDir(name: string): string {
+    const targetDir = path.join(root, name);
+    fs.mkdirSync(targetDir);
+    fs.writeFileSync(path.join(targetDir, 'existing.txt'), 'keep');
+    return targetDir;
+  }
+
+  it('aborts tar extraction over maxTotalSize and removes partial output', async () => {
+    const handler = new TarGzHandler();
+    const archivePath = path.join(root, 'source.tar.gz');
+    const compressed = await handler.compress(source, archivePath, {});
+    assert.ok(!compressed.isError, compressed.error?.message);
+
+    const targetDir = createTargetDir('tar-out');
+    const result = await handler.decompress(archivePath, targetDir, { maxTotalSize: 6000 });
+
+    assert.equal(result.isError, true);
+    assert.match(result.error!.message, /exceeds the limit of 6000 bytes/);
+    assertUntouched(targetDir);
+  });
+
+  it('aborts zip extraction over maxEntries and removes partial output', async () => {
+    const handler = new ZipHandler();
+    const archivePath = path.join(root, 'source.zip');
+    const compressed = await handler.compress(source, archivePath, {});
+    assert.ok(!compressed.isError, compressed.error?.message);
+
+    const targetDir = createTargetDir('zip-out');
+    const result = await handler.decompress(archivePath, targetDir, { maxEntries: 2 });
+
+    assert.equal(result.isError, true);
+    assert.match(result.error!.message, /more than 2 entries/);
+    assertUntouched(targetDir);
+  });
+
+  it('aborts single-file extraction over maxExpansionRatio and removes the partial file', async () => {
+    const handler = new GzipHandler();
+    const inputPath = path.join(root, 'zeros.bin');
+    fs.writeFileSync(inputPath, Buffer.alloc(4 * 1024 * 1024));
+    const archivePath = path.join(root, 'zeros.bin.gz');
+    const compressed = await handler.compress(inputPath, archivePath, { compressionLevel: 9 });
+    assert.ok(!compressed.isError, compressed.error?.message);
+
+    const targetDir = createTargetDir('gzip-out');
+    const result = await handler.decompress(archivePath, targetDir, { maxExpansionRatio: 100 });
+
+    assert.equal(result.isError, true);
+    assert.match(result.error!.message, /Expansion ratio exceeds the limit of 100:1/);
+    assertUntouched(targetDir);
+  });
+
+  it('stops inflating a zip entry at the size recorded in its header', async () => {
+    const handler = new ZipHandler();
+    const archivePath = path.join(root, 'lying.zip');
+    const compressed = await handler.compress(path.join(source, 'a.txt'), archivePath, {});
+    assert.ok(!compressed.isError, compressed.error?.message);
+
+    // 把本地文件头和中央目录中记录的原始大小改为16字节
+    const data = fs.readFileSync(archivePath);
+    data.writeUInt32LE(16, 22);
+    data.writeUInt32LE(16, data.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])) + 24);
+    fs.writeFileSync(archivePath, data);
+
+    const tested = await handler.test(archivePath, {});
+    assert.equal(tested.content!.passed, false);
+    assert.match((tested.content!.entries as { error?: string }[])[0].error!, /exceeds the limit of 16 bytes/);
+
+    const read = await handler.readEntry(archivePath, { entryPath: 'a.txt' });
+    assert.equal(read.isError, true);
+    assert.match(read.error!.message, /exceeds the limit of 16 bytes/);
+  });
+
+  it('applies the limits when listing a single-file format without a size header', async () => {
+    const handler = new BrotliHandler();
+    const inputPath = path.join(root, 'zeros-list.bin');
+    fs.writeFileSync(inputPath, Buffer.alloc(4 * 1024 * 1024));
+    const archivePath = path.join(root, 'zeros-list.bin.br');
+    const compressed = await handler.compress(inputPath, archivePath, {});
+    assert.ok(!compressed.isError, compressed.error?.message);
+
+    const result = await handler.listContents(archivePath, { maxExpansionRatio: 100 });
+
+    assert.equal(result.isError, true);
+    assert.match(result.error!.message, /Expansion ratio exceeds the limit of 100:1/);
+  });
+
+  it('meters the bytes 7z actually extracts when the listed sizes lie', { skip: !sevenZipAvailable && '7z binary not available' }, async () => {
+    const handler = new SevenZipHandler();
+    const archivePath = path.join(root, 'source.7z');
+    const compressed = await handler.compress(source, archivePath, {});
+    assert.ok(!compressed.isError, compressed.error?.message);
+
+    // 模拟条目头中记录的大小为0，解压前的检查无法发现超出限制
+    const toArchiveEntry = (handler as any).toArchiveEntry.bind(handler);
+    (handler as any).toArchiveEntry = (...args: unknown[]) => ({ ...toArchiveEntry(...args), size: 0 });
+
+    const targetDir = createTargetDir('7z-out');
+    const result = await handler.decompress(archivePath, targetDir, { maxTotalSize: 6000 });
+
+    assert.equal(result.isError, true);
+    assert.match(result.error!.message, /exceeds the limit of 6000 bytes/);
+    assertUntouched(targetDir);
+  });
+});
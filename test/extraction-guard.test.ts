@@ -0,0 +1,159 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { spawnSync } from 'child_process';
+import { createGzip } from 'zlib';
+import { pipeline } from 'stream/promises';
+import * as tarStream from 'tar-stream';
+import { SevenZipHandler } from '../src/handlers/7z-handler.js';
+import { TarGzHandler } from '../src/handlers/tar-gz-handler.js';
+import { ExtractionGuard } from '../src/utils/extraction-guard.js';
+
+interface TarTestEntry {
+  name: string;
+  type?: 'file' | 'directory' | 'symlink' | 'link';
+  content?: string;
+  linkname?: string;
+}
+
+/**
+ * 用tar-stream写入任意条目名的tar.gz，用于构造恶意归档
+ */
+async function writeTarGz(archivePath: string, entries: TarTestEntry[]): Promise<void> {
+  const pack = tarStream.pack();
+  const writing = pipeline(pack, createGzip(), fs.createWriteStream(archivePath));
+  for (const entry of entries) {
+    if (entry.type && entry.type !== 'file') {
+      pack.entry({ name: entry.name, type: entry.type, linkname: entry.linkname });
+    } else {
+      pack.entry({ name: entry.name }, entry.content || '');
+    }
+  }
+  pack.finalize();
+  await writing;
+}
+
+/**
+ * 调用7z可执行文件向归档中添加条目，通配符添加时符号链接按链接保存
+ */
+function addTo7z(archivePath: string, cwd: string, pattern: string): void {
+  const result = spawnSync(SevenZipHandler.resolveBinaryPath(), ['a', archivePath, pattern], { cwd });
+  assert.equal(result.status, 0, result.stderr?.toString());
+}
+
+const sevenZipAvailable = spawnSync(SevenZipHandler.resolveBinaryPath(), ['i']).status === 0;
+
+describe('ExtractionGuard', () => {
+  let root: string;
+  let outside: string;
+
+  before(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'extraction-guard-'));
+    outside = path.join(root, 'outside');
+    fs.mkdirSync(outside);
+  });
+
+  after(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('rejects absolute entry names and ".." segments', () => {
+    assert.equal(ExtractionGuard.checkEntryName('../evil.txt'), 'path contains ".." segments');
+    assert.equal(ExtractionGuard.checkEntryName('a/../../evil.txt'), 'path contains ".." segments');
+    assert.equal(ExtractionGuard.checkEntryName('a\\..\\evil.txt'), 'path contains ".." segments');
+    assert.equal(ExtractionGuard.checkEntryName('/etc/passwd'), 'absolute path');
+    assert.equal(ExtractionGuard.checkEntryName('C:\\Windows\\evil.dll'), 'absolute path');
+    assert.equal(ExtractionGuard.checkEntryName('\\\\server\\share\\evil'), 'absolute path');
+    assert.equal(ExtractionGuard.checkEntryName('a/b..c/file.txt'), null);
+  });
+
+  it('rejects symlink targets outside the target directory', async () => {
+    const targetDir = fs.mkdtempSync(path.join(root, 'links-'));
+    const guard = new ExtractionGuard(targetDir);
+    const linkPath = path.join(targetDir, 'link');
+
+    assert.equal(await guard.checkSymlink('link', linkPath, '../outside'), false);
+    assert.equal(await guard.checkSymlink('link', linkPath, outside), false);
+    assert.equal(await guard.checkSymlink('link', linkPath, 'sub/../../outside'), false);
+    assert.equal(await guard.checkSymlink('link', linkPath, 'sub/file.txt'), true);
+    assert.equal(guard.getSkippedEntries().length, 3);
+  });
+
+  it('rejects output paths whose parent is a symlink to outside', async () => {
+    const targetDir = fs.mkdtempSync(path.join(root, 'parent-'));
+    fs.symlinkSync(outside, path.join(targetDir, 'escape'));
+    const guard = new ExtractionGuard(targetDir);
+
+    assert.equal(await guard.resolveOutputPath('escape/evil.txt', 'escape/evil.txt'), null);
+    assert.equal(await guard.resolveOutputPath('safe/file.txt', 'safe/file.txt'), path.join(targetDir, 'safe/file.txt'));
+  });
+
+  it('extracts only safe entries from a malicious tar archive', async () => {
+    const archivePath = path.join(root, 'evil.tar.gz');
+    await writeTarGz(archivePath, [
+      { name: 'safe.txt', content: 'safe' },
+      { name: '../evil.txt', content: 'evil' },
+      { name: path.join(outside, 'absolute.txt'), content: 'evil' },
+      { name: 'up', type: 'symlink', linkname: '../outside' },
+      { name: 'abs', type: 'symlink', linkname: outside },
+      { name: 'up/through-link.txt', content: 'evil' },
+      { name: 'hard', type: 'link', linkname: '../outside/secret' },
+      { name: 'inner', type: 'symlink', linkname: 'safe.txt' }
+    ]);
+    fs.writeFileSync(path.join(outside, 'secret'), 'secret');
+
+    const targetDir = path.join(root, 'extracted');
+    const result = await new TarGzHandler().decompress(archivePath, targetDir, {});
+
+    assert.ok(!result.isError, result.error?.message);
+    assert.deepEqual(fs.readdirSync(outside).sort(), ['secret']);
+    assert.deepEqual(fs.readdirSync(targetDir).sort(), ['inner', 'safe.txt', 'up']);
+    assert.equal(fs.lstatSync(path.join(targetDir, 'up')).isDirectory(), true);
+    assert.equal(fs.readlinkSync(path.join(targetDir, 'inner')), 'safe.txt');
+
+    const skipped = (result.content!.skippedEntries as { path: string }[]).map(entry => entry.path).sort();
+    assert.deepEqual(skipped, ['../evil.txt', 'abs', 'hard', 'up', path.join(outside, 'absolute.txt')].sort());
+  });
+
+  it('does not write through a symlink that already exists in the target directory', async () => {
+    const archivePath = path.join(root, 'existing-link.tar.gz');
+    await writeTarGz(archivePath, [{ name: 'escape/evil.txt', content: 'evil' }]);
+
+    const targetDir = fs.mkdtempSync(path.join(root, 'existing-'));
+    fs.symlinkSync(outside, path.join(targetDir, 'escape'));
+    const result = await new TarGzHandler().decompress(archivePath, targetDir, { onConflict: 'overwrite' });
+
+    assert.ok(!result.isError, result.error?.message);
+    assert.equal(fs.existsSync(path.join(outside, 'evil.txt')), false);
+  });
+
+  it('skips unsafe symlinks and paths through them in a 7z archive', { skip: !sevenZipAvailable && '7z binary not available' }, async () => {
+    const linksDir = path.join(root, '7z-links');
+    const throughDir = path.join(root, '7z-through');
+    fs.mkdirSync(linksDir);
+    fs.mkdirSync(path.join(throughDir, 'abs'), { recursive: true });
+    fs.writeFileSync(path.join(linksDir, 'safe.txt'), 'safe');
+    fs.symlinkSync(outside, path.join(linksDir, 'abs'));
+    fs.symlinkSync('../outside', path.join(linksDir, 'up'));
+    fs.symlinkSync('safe.txt', path.join(linksDir, 'inner'));
+    fs.writeFileSync(path.join(throughDir, 'abs', 'evil.txt'), 'evil');
+
+    // 先写入指向外部的符号链接，再写入经由该链接的文件
+    const archivePath = path.join(root, 'evil.7z');
+    addTo7z(archivePath, linksDir, '*');
+    addTo7z(archivePath, throughDir, 'abs/evil.txt');
+
+    const targetDir = path.join(root, 'extracted-7z');
+    const result = await new SevenZipHandler().decompress(archivePath, targetDir, {});
+
+    assert.ok(!result.isError, result.error?.message);
+    assert.deepEqual(fs.readdirSync(outside).sort(), ['secret']);
+    assert.deepEqual(fs.readdirSync(targetDir).sort(), ['inner', 'safe.txt']);
+    assert.equal(fs.readlinkSync(path.join(targetDir, 'inner')), 'safe.txt');
+
+    const skipped = (result.content!.skippedEntries as { path: string }[]).map(entry => entry.path).sort();
+    assert.deepEqual(skipped, ['abs', 'abs/evil.txt', 'up']);
+  });
+});
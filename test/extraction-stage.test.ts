@@ -0,0 +1,72 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConflictResolver } from '../src/utils/conflict-resolver.js';
+import { ExtractionGuard } from '../src/utils/extraction-guard.js';
+import { ExtractionStage } from '../src/utils/extraction-stage.js';
+
+describe('ExtractionStage', () => {
+  let root: string;
+
+  before(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'extraction-stage-'));
+  });
+
+  after(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  /**
+   * 在暂存目录中写入文件，返回暂存对象
+   */
+  async function stageFiles(targetDir: string, files: string[]): Promise<ExtractionStage> {
+    const stage = await ExtractionStage.create(targetDir, new ConflictResolver('overwrite'));
+    for (const file of files) {
+      const stagedPath = path.join(stage.stagingDir, file);
+      fs.mkdirSync(path.dirname(stagedPath), { recursive: true });
+      fs.writeFileSync(stagedPath, file);
+    }
+    return stage;
+  }
+
+  it('merges staged entries into existing directories', async () => {
+    const targetDir = path.join(root, 'merge');
+    fs.mkdirSync(path.join(targetDir, 'sub'), { recursive: true });
+    fs.writeFileSync(path.join(targetDir, 'sub', 'existing.txt'), 'keep');
+
+    const stage = await stageFiles(targetDir, ['a.txt', 'sub/b.txt']);
+    await stage.commit(new ExtractionGuard(stage.stagingDir));
+    await stage.discard();
+
+    assert.deepEqual(fs.readdirSync(targetDir).sort(), ['a.txt', 'sub']);
+    assert.deepEqual(fs.readdirSync(path.join(targetDir, 'sub')).sort(), ['b.txt', 'existing.txt']);
+  });
+
+  it('moves nothing when a file would replace an existing directory', async () => {
+    const targetDir = path.join(root, 'file-over-dir');
+    fs.mkdirSync(path.join(targetDir, 'clash'), { recursive: true });
+
+    const stage = await stageFiles(targetDir, ['a.txt', 'clash', 'sub/z.txt']);
+    await assert.rejects(stage.commit(new ExtractionGuard(stage.stagingDir)), /Path exists but is a directory/);
+    await stage.discard();
+
+    assert.deepEqual(fs.readdirSync(targetDir), ['clash']);
+    assert.deepEqual(fs.readdirSync(path.join(targetDir, 'clash')), []);
+  });
+
+  it('moves nothing when a directory would merge into an existing file', async () => {
+    const targetDir = path.join(root, 'dir-over-file');
+    fs.mkdirSync(path.join(targetDir, 'sub'), { recursive: true });
+    fs.writeFileSync(path.join(targetDir, 'sub', 'clash'), 'keep');
+
+    const stage = await stageFiles(targetDir, ['a.txt', 'sub/b.txt', 'sub/clash/c.txt']);
+    await assert.rejects(stage.commit(new ExtractionGuard(stage.stagingDir)), /Path exists but is not a directory/);
+    await stage.discard();
+
+    assert.deepEqual(fs.readdirSync(targetDir), ['sub']);
+    assert.deepEqual(fs.readdirSync(path.join(targetDir, 'sub')), ['clash']);
+    assert.equal(fs.readFileSync(path.join(targetDir, 'sub', 'clash'), 'utf8'), 'keep');
+  });
+});
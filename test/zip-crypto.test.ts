@@ -0,0 +1,118 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import * as zipjs from '@zip.js/zip.js';
+import { ZipHandler } from '../src/handlers/zip-handler.js';
+import { ZipEncryptionMethod } from '../src/utils/zip-crypto.js';
+
+// zip.js是独立实现的AES（WinZip AE-2）和ZipCrypto读写器，用于验证互通性
+zipjs.configure({ useWebWorkers: false });
+
+const PASSWORD = 'correct horse battery staple';
+
+const FILES: Record<string, string> = {
+  'hello.txt': 'Hello, encrypted world!\n',
+  'sub/repeated.txt': 'compressible '.repeat(5000),
+  'sub/empty.txt': ''
+};
+
+/**
+ * 用zip.js读取归档中所有文件条目的内容，并检查条目使用的加密方式
+ */
+async function readWithZipJs(
+  archivePath: string,
+  password: string,
+  encryptionMethod: ZipEncryptionMethod
+): Promise<Record<string, string>> {
+  const reader = new zipjs.ZipReader(new zipjs.Uint8ArrayReader(fs.readFileSync(archivePath)), { password });
+  try {
+    const contents: Record<string, string> = {};
+    for (const entry of await reader.getEntries()) {
+      if (!entry.directory) {
+        assert.equal(entry.encrypted, true, `${entry.filename} should be encrypted`);
+        assert.equal(entry.zipCrypto, encryptionMethod === 'zipcrypto', `${entry.filename} should use ${encryptionMethod}`);
+        contents[entry.filename] = await entry.getData!(new zipjs.TextWriter());
+      }
+    }
+    return contents;
+  } finally {
+    await reader.close();
+  }
+}
+
+/**
+ * 用zip.js写入加密归档
+ */
+async function writeWithZipJs(archivePath: string, options: zipjs.ZipWriterConstructorOptions): Promise<void> {
+  const writer = new zipjs.ZipWriter(new zipjs.Uint8ArrayWriter(), { password: PASSWORD, ...options });
+  for (const [name, content] of Object.entries(FILES)) {
+    await writer.add(name, new zipjs.TextReader(content));
+  }
+  fs.writeFileSync(archivePath, await writer.close());
+}
+
+/**
+ * 读取解压目录中FILES列出的文件
+ */
+function readExtracted(targetDir: string): Record<string, string> {
+  return Object.fromEntries(Object.keys(FILES).map(name => [name, fs.readFileSync(path.join(targetDir, name), 'utf8')]));
+}
+
+describe('zip encryption interoperability', () => {
+  let root: string;
+  let source: string;
+  const handler = new ZipHandler();
+
+  before(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'zip-crypto-'));
+    source = path.join(root, 'source');
+    for (const [name, content] of Object.entries(FILES)) {
+      fs.mkdirSync(path.dirname(path.join(source, name)), { recursive: true });
+      fs.writeFileSync(path.join(source, name), content);
+    }
+  });
+
+  after(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  for (const encryptionMethod of ['aes256', 'zipcrypto'] as ZipEncryptionMethod[]) {
+    it(`writes ${encryptionMethod} archives that zip.js decrypts`, async () => {
+      const archivePath = path.join(root, `written-${encryptionMethod}.zip`);
+      const result = await handler.compress(source, archivePath, { password: PASSWORD, encryptionMethod });
+      assert.ok(!result.isError, result.error?.message);
+
+      assert.deepEqual(await readWithZipJs(archivePath, PASSWORD, encryptionMethod), FILES);
+      await assert.rejects(readWithZipJs(archivePath, 'wrong password', encryptionMethod));
+    });
+  }
+
+  for (const [name, options] of [
+    ['aes256', { encryptionStrength: 3 }],
+    ['zipcrypto', { zipCrypto: true }]
+  ] as [string, zipjs.ZipWriterConstructorOptions][]) {
+    it(`reads ${name} archives written by zip.js`, async () => {
+      const archivePath = path.join(root, `zipjs-${name}.zip`);
+      await writeWithZipJs(archivePath, options);
+
+      const targetDir = path.join(root, `zipjs-${name}`);
+      const result = await handler.decompress(archivePath, targetDir, { password: PASSWORD });
+      assert.ok(!result.isError, result.error?.message);
+      assert.deepEqual(readExtracted(targetDir), FILES);
+
+      const tested = await handler.test(archivePath, { password: PASSWORD });
+      assert.equal(tested.content!.passed, true);
+    });
+  }
+
+  it('reports a wrong password separately from corrupted data', async () => {
+    const archivePath = path.join(root, 'zipjs-wrong-password.zip');
+    await writeWithZipJs(archivePath, { encryptionStrength: 3 });
+    const result = await handler.decompress(archivePath, path.join(root, 'wrong-password'), { password: 'wrong password' });
+
+    assert.equal(result.isError, true);
+    assert.match(result.error!.message, /Wrong password/);
+  });
+});